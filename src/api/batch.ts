@@ -0,0 +1,65 @@
+import type { BatchSolveItem, BatchSolveResult, SolverOptions, SolverResult } from '@/types';
+import { InvalidPuzzleError, solvePuzzle } from './solver';
+
+// States each puzzle may explore unless its options ask for fewer, so one
+// hard level can't use up the batch's budget for the rest
+const BATCH_ITEM_STATE_LIMIT = 200000;
+// States the whole batch may explore, the same as a single solve
+const BATCH_STATE_BUDGET = 1000000;
+
+/**
+ * Solve several puzzles one after another within one search budget. A puzzle
+ * that is invalid, has no solution, hits its state limit or throws gets a
+ * failed result and the rest are still solved; once the budget is used up the
+ * remaining puzzles fail without being searched. Alternative solutions aren't
+ * looked for.
+ * @param items Puzzles to solve, each with options overriding the shared ones
+ * @param options Options shared by every puzzle
+ * @returns One result per puzzle, in order, with totals
+ */
+export function solveBatch(items: BatchSolveItem[], options: SolverOptions = {}): BatchSolveResult {
+  const startTime = Date.now();
+  let statesLeft = BATCH_STATE_BUDGET;
+
+  const results = items.map((item): SolverResult => {
+    if (statesLeft <= 0) {
+      return {
+        success: false,
+        moves: [],
+        message: 'Not solved: the batch used up its search budget on earlier puzzles'
+      };
+    }
+
+    const itemOptions = { ...options, ...item.options, alternatives: 0 };
+    let maxStates = Math.min(itemOptions.maxStates ?? BATCH_ITEM_STATE_LIMIT, statesLeft);
+    // A move budget may run a second search as large as the first
+    if (itemOptions.moveBudget !== undefined) maxStates = Math.max(Math.floor(maxStates / 2), 1);
+
+    const result = solveItem(item, { ...itemOptions, maxStates });
+    statesLeft -= result.stats?.statesExplored ?? 0;
+    return result;
+  });
+  const solved = results.filter(result => result.success).length;
+
+  return {
+    results,
+    solved,
+    failed: results.length - solved,
+    elapsedMs: Date.now() - startTime
+  };
+}
+
+function solveItem({ gameState }: BatchSolveItem, options: SolverOptions): SolverResult {
+  try {
+    return solvePuzzle(gameState, options);
+  } catch (error) {
+    if (error instanceof InvalidPuzzleError) return error.toResult();
+
+    console.error('Batch solver error:', error);
+    return {
+      success: false,
+      moves: [],
+      message: error instanceof Error ? error.message : 'Unknown error solving puzzle'
+    };
+  }
+}
@@ -1,23 +1,128 @@
-import type { ClaudeAnalysisResult, GameState } from '@/types';
+import type { ClaudeAnalysisResult, GameState, LayerConfidence } from '@/types';
+import { getAvailableColors, resolveColor } from '@/utils';
+import { validatePuzzle } from '@/utils/validation';
 import type { Anthropic } from '@anthropic-ai/sdk';
-import type { TextBlock } from '@anthropic-ai/sdk/resources/messages.mjs';
+import type { MessageParam, TextBlock } from '@anthropic-ai/sdk/resources/messages.mjs';
+import { z } from 'zod';
+
+const MAX_CORRECTIONS = 2; // Follow-up turns asking Claude to fix its answer
+
+// Model used unless the CLAUDE_MODEL binding names another
+export const DEFAULT_CLAUDE_MODEL = 'claude-3-7-sonnet-20250219';
+
+// A listed color, "?" or an alias such as "teal", normalized to the palette id
+const knownColorSchema = z.string().transform((name, ctx) => {
+  const color = resolveColor(name);
+  if (!color) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${name}" is not one of the listed colors` });
+    return z.NEVER;
+  }
+  return color;
+});
+
+// Shape Claude must answer with. Confidence is a bonus: a malformed one is
+// dropped rather than sent back for correction
+const analysisSchema = z.object({
+  capacity: z.number().int().min(1).max(12).default(4),
+  vials: z.array(z.array(knownColorSchema)),
+  confidence: z.array(z.array(z.number().min(0).max(1))).optional().catch(undefined),
+  ambiguous: z.array(z.object({
+    vial: z.number().int().min(1),
+    layer: z.number().int().min(1),
+    couldBe: knownColorSchema
+  })).optional().catch(undefined)
+});
+
+type Analysis = z.infer<typeof analysisSchema>;
+
+/**
+ * Line Claude's confidence and ambiguity reports up with the layers it read
+ * @param analysis Parsed answer
+ * @returns One entry per layer, or undefined when Claude reported neither
+ */
+function readConfidence({ vials, confidence, ambiguous }: Analysis): LayerConfidence[][] | undefined {
+  if (!confidence && !ambiguous) return undefined;
+
+  const layers = vials.map((vial, vialIndex) => vial.map((_, layerIndex): LayerConfidence => ({
+    confidence: confidence?.[vialIndex]?.[layerIndex] ?? 1
+  })));
+
+  // Positions are 1-based, as in the correction messages
+  for (const { vial, layer, couldBe } of ambiguous ?? []) {
+    const entry = layers[vial - 1]?.[layer - 1];
+    if (entry && couldBe !== vials[vial - 1][layer - 1]) {
+      entry.ambiguousWith = couldBe;
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Parse Claude's answer and check that it describes a consistent puzzle
+ * @param text Claude's reply
+ * @returns The game state and per-layer confidence, or the problems to send back to Claude
+ */
+function parseAnalysis(
+  text: string
+): { gameState: GameState, confidence?: LayerConfidence[][] } | { errors: string[] } {
+  const jsonMatch = text.match(/```json\s*({[\s\S]*?})\s*```/) || 
+                    text.match(/{[\s\S]*}/);
+  if (!jsonMatch) {
+    return { errors: ['The reply contained no JSON object'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonMatch[1] || jsonMatch[0]);
+  } catch (error) {
+    return { errors: [`The JSON could not be parsed: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const parsed = analysisSchema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map(({ path, message }) => {
+        if (path[0] === 'vials' && path.length === 3) {
+          return `Vial ${Number(path[1]) + 1}, layer ${Number(path[2]) + 1}: ${message}`;
+        }
+        return path.length > 0 ? `${path.join('.')}: ${message}` : message;
+      })
+    };
+  }
+
+  // Every color must fill whole vials, no vial may overflow, and so on
+  const gameState: GameState = { vials: parsed.data.vials, capacity: parsed.data.capacity };
+  const { valid, issues } = validatePuzzle(gameState, { strictMode: true });
+  if (!valid) {
+    return {
+      errors: issues.filter(issue => issue.severity === 'error').map(issue => issue.message)
+    };
+  }
+
+  return { gameState, confidence: readConfidence(parsed.data) };
+}
+
 /**
  * Analyzes a Water Sort puzzle image using Claude
  * @param imageBase64 Base64 encoded image
  * @param anthropic Anthropic client instance
+ * @param model Claude model to use
  * @returns Analysis result with game state
  */
 export async function analyzeImage(
   imageBase64: string,
   fileType: 'png' | 'jpg' | 'jpeg',
-  anthropic: Anthropic
+  anthropic: Anthropic,
+  model = DEFAULT_CLAUDE_MODEL
 ): Promise<ClaudeAnalysisResult> {
   try {
     // Construct the prompt for Claude
+    const colors = getAvailableColors().join(', ');
     const prompt = `
 I need to extract the game state from this Water Sort puzzle screenshot. 
 
-Please analyze the vials in the image and identify the colors in each vial, from bottom to top. Use simple color names like: red, green, blue, yellow, orange, purple, cyan, pink, brown, gray.
+Please analyze the vials in the image and identify the colors in each vial, from bottom to top. Use only these color names: ${colors}.
 
 Important:
 - Don't conflate similar colors (particularly distinguish between blue and cyan)
@@ -25,16 +130,29 @@ Important:
 - List colors from BOTTOM to TOP for each vial, but
 - DO NOT pad the vial with hallucinated colors — if they're partially full, only list the colors actually present
 - Empty vials should be represented as empty arrays
-- Possible colors: red, green, blue, yellow, orange, purple, cyan
+- Possible colors: ${colors}
+- Some layers are covered and shown as a question mark; list each of them as "?" (the top layer of a vial is never covered)
+- Report how many layers a full vial holds as "capacity" (usually 4, sometimes 3, 5 or 6)
+- Rate how sure you are of each layer in "confidence", from 0 to 1, with one array per vial matching "vials"
+- Under "ambiguous", list every layer whose color could also be another listed color (vial and layer numbered from 1, layer 1 at the bottom)
 
 Present your response in this exact JSON format ONLY, with no additional text:
 
 \`\`\`json
 {
+  "capacity": 4,
   "vials": [
     ["color1", "color2", "color3", "color4"],
     ["color1", "color2"],
     []
+  ],
+  "confidence": [
+    [0.95, 0.9, 0.6, 0.95],
+    [0.9, 0.85],
+    []
+  ],
+  "ambiguous": [
+    { "vial": 1, "layer": 3, "couldBe": "color5" }
   ]
 }
 \`\`\`
@@ -42,61 +160,62 @@ Present your response in this exact JSON format ONLY, with no additional text:
 Where the first array represents vial 1, the second represents vial 2, and so on, working from left to right, top to bottom in the image.
 `;
 
-    // Call Claude API with the provided client
-    const response = await anthropic.messages.create({
-      model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: prompt
-            },
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: `image/${fileType === 'jpg' ? 'jpeg' : fileType}`,
-                data: imageBase64
-              }
+    const messages: MessageParam[] = [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: prompt
+          },
+          {
+            type: 'image',
+            source: {
+              type: 'base64',
+              media_type: `image/${fileType === 'jpg' ? 'jpeg' : fileType}`,
+              data: imageBase64
             }
-          ]
-        }
-      ]
-    });
-
-    // Extract JSON from Claude's response
-    const { text }  = response.content[0] as TextBlock;;
-    const jsonMatch = text.match(/```json\s*({[\s\S]*?})\s*```/) || 
-                      text.match(/{[\s\S]*?}/);
-                      
-    if (!jsonMatch) {
-      return {
-        success: false,
-        error: 'Could not extract valid JSON from Claude response'
-      };
-    }
+          }
+        ]
+      }
+    ];
 
-    // Parse the JSON
-    const jsonContent = jsonMatch[1] || jsonMatch[0];
-    const gameState = JSON.parse(jsonContent) as GameState;
+    // Ask again with the problems spelled out until the answer holds up
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_CORRECTIONS; attempt++) {
+      // Call Claude API with the provided client
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: 1024,
+        messages
+      });
 
-    // Validate the structure
-    if (!gameState.vials || !Array.isArray(gameState.vials)) {
-      return {
-        success: false,
-        error: 'Invalid game state structure: missing vials array'
-      };
+      const { text } = response.content[0] as TextBlock;
+      const analysis = parseAnalysis(text);
+      if ('gameState' in analysis) {
+        return {
+          success: true,
+          gameState: analysis.gameState,
+          confidence: analysis.confidence
+        };
+      }
+
+      errors = analysis.errors;
+      messages.push(
+        { role: 'assistant', content: text },
+        {
+          role: 'user',
+          content: `That answer has problems:\n${errors.map(error => `- ${error}`).join('\n')}\n\n` +
+            'Look at the screenshot again and reply with the corrected JSON only, in the same format.'
+        }
+      );
     }
 
     return {
-      success: true,
-      gameState
+      success: false,
+      error: `Claude's reading of the image is inconsistent: ${errors.join('; ')}`
     };
   } catch (error) {
-    console.error('Claude API error:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error analyzing image'
@@ -0,0 +1,127 @@
+import type { GameState, GeneratedPuzzle, GeneratorOptions, SolverResult, Vial } from '@/types';
+import { getAvailableColors } from '@/utils';
+import { InvalidPuzzleError, solvePuzzle } from './solver';
+
+const MAX_ATTEMPTS = 20; // Shuffles to try before giving up on a solvable one
+// States the solvability checks may explore, per shuffle and in all, to fit a Worker's CPU time
+const MAX_STATES_PER_ATTEMPT = 20000;
+const MAX_STATES = 60000;
+
+/**
+ * Thrown when the generator options can't produce a solvable puzzle
+ */
+export class PuzzleGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PuzzleGenerationError';
+  }
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so a seed always
+ * produces the same puzzle
+ * @param seed 32-bit seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle an array in place (Fisher-Yates)
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Deal every color's layers into the non-empty vials at random, giving
+ * each at least one layer and none more than its capacity
+ */
+function dealVials(options: GeneratorOptions, random: () => number): Vial[] {
+  const { vialCount, colorCount, capacity, emptyVials } = options;
+  const colors = getAvailableColors().slice(0, colorCount);
+  const units = shuffle(colors.flatMap(color => Array<string>(capacity).fill(color)), random);
+
+  const filledCount = vialCount - emptyVials;
+  const vials: Vial[] = Array.from({ length: vialCount }, () => []);
+
+  units.forEach((color, index) => {
+    if (index < filledCount) {
+      vials[index].push(color);
+      return;
+    }
+    const open = vials.slice(0, filledCount).filter(vial => vial.length < capacity);
+    open[Math.floor(random() * open.length)].push(color);
+  });
+
+  return vials;
+}
+
+/**
+ * Generate a shuffled puzzle and verify it can be solved
+ * @param options Puzzle size, seed and the rules it must be solvable under
+ * @returns The puzzle, the seed that produced it, its solution and difficulty
+ * @throws PuzzleGenerationError when the options are impossible or no solvable shuffle turns up
+ */
+export function generatePuzzle(options: GeneratorOptions): GeneratedPuzzle {
+  const { vialCount, colorCount, capacity, emptyVials, strictMode = true } = options;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+  const availableColors = getAvailableColors().length;
+  if (colorCount > availableColors) {
+    throw new PuzzleGenerationError(`At most ${availableColors} colors are available`);
+  }
+  if (colorCount + emptyVials > vialCount) {
+    throw new PuzzleGenerationError(
+      `${colorCount} colors and ${emptyVials} empty vials need at least ${colorCount + emptyVials} vials`
+    );
+  }
+  // Every vial that isn't meant to be empty gets at least one layer
+  if (vialCount - emptyVials > colorCount * capacity) {
+    throw new PuzzleGenerationError(
+      `${colorCount} colors of ${capacity} layers can fill at most ${colorCount * capacity} vials, ` +
+      `but ${vialCount} vials with ${emptyVials} empty leaves ${vialCount - emptyVials} to fill`
+    );
+  }
+
+  const random = createRandom(seed);
+  let statesLeft = MAX_STATES;
+  let attempt = 0;
+  while (attempt < MAX_ATTEMPTS && statesLeft > 0) {
+    attempt++;
+    const gameState: GameState = { vials: dealVials(options, random), capacity };
+
+    // Without empty vials a shuffle may have no legal move at all
+    let solution: SolverResult;
+    try {
+      solution = solvePuzzle(gameState, {
+        strictMode,
+        algorithm: 'astar',
+        maxStates: Math.min(MAX_STATES_PER_ATTEMPT, statesLeft)
+      });
+    } catch (error) {
+      if (error instanceof InvalidPuzzleError) continue;
+      throw error;
+    }
+    statesLeft -= solution.stats?.statesExplored ?? 0;
+
+    // Skip shuffles that happen to be solved already
+    if (solution.success && solution.moves.length > 0) {
+      return { gameState, seed, attempts: attempt, solution, difficulty: solution.difficulty };
+    }
+  }
+
+  throw new PuzzleGenerationError(`No solvable puzzle found in ${attempt} shuffles of seed ${seed}`);
+}
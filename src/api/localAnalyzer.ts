@@ -0,0 +1,34 @@
+import type { ClaudeAnalysisResult } from '@/types';
+import { analyzePixels } from '@/utils/imageAnalysis';
+import { decodePng } from '@/utils/png';
+
+/**
+ * Analyzes a Water Sort puzzle screenshot from its pixels, without Claude
+ * @param imageBase64 Base64 encoded image
+ * @param fileType Image format; only PNG can be decoded in a Worker
+ * @param options capacity: layers a full vial holds
+ * @returns Analysis result with game state
+ */
+export async function analyzeImageLocally(
+  imageBase64: string,
+  fileType: 'png' | 'jpg' | 'jpeg',
+  options: { capacity?: number } = {}
+): Promise<ClaudeAnalysisResult> {
+  if (fileType !== 'png') {
+    return {
+      success: false,
+      error: 'The server-side local analyzer only reads PNG screenshots; analyze JPEGs in the browser instead'
+    };
+  }
+
+  try {
+    const bytes = Uint8Array.from(atob(imageBase64), char => char.charCodeAt(0));
+    return analyzePixels(await decodePng(bytes), options);
+  } catch (error) {
+    console.error('Local analyzer error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error analyzing image'
+    };
+  }
+}
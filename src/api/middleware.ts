@@ -1,17 +1,11 @@
 import type { AnthropicHonoEnv } from '@/types';
-import { Anthropic } from '@anthropic-ai/sdk';
 import type { MiddlewareHandler } from 'hono';
 
-export const anthropicMiddleware: MiddlewareHandler<AnthropicHonoEnv> = async (c, next) => {
-  // Initialize Anthropic client with API key from env
-  const apiKey = c.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    return c.json({ error: 'Anthropic API key is not set' }, 500);
+export const puzzleStorageMiddleware: MiddlewareHandler<AnthropicHonoEnv> = async (c, next) => {
+  // Puzzle routes need the KV namespace bound in wrangler.jsonc
+  if (!c.env.PUZZLES) {
+    return c.json({ error: 'Saved puzzles are not available on this server' }, 503);
   }
-  
-  c.set('anthropic', new Anthropic({
-    apiKey
-  }));
-  
+
   await next();
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+/**
+ * Binary min-heap ordered by a comparator
+ */
+export class PriorityQueue<T> {
+  private items: T[] = [];
+  private compare: (a: T, b: T) => number;
+
+  /**
+   * @param compare Negative when `a` should be dequeued before `b`
+   */
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an item to the queue
+   */
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    // Sift the new item up until its parent comes first
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  /**
+   * Remove and return the first item, or undefined when empty
+   */
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const first = items[0];
+    const last = items.pop()!;
+    if (items.length === 0) return first;
+
+    // Move the last item to the root and sift it down
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+
+    return first;
+  }
+}
@@ -1,53 +1,167 @@
-import type { AnthropicHonoEnv, SolverResult } from '@/types';
+import type { AnthropicHonoEnv, BatchSolveResult, HintResult, SolverResult, VerifyResult } from '@/types';
+import { getAvailableColors, getVialCapacities, resolveColor } from '@/utils';
+import { replayMoves } from '@/utils/replay';
+import { validatePuzzle } from '@/utils/validation';
 import { zValidator } from '@hono/zod-validator';
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
-import { analyzeImage } from './claude';
-import { anthropicMiddleware } from './middleware';
-import { solvePuzzle } from './solver';
+import { solveBatch } from './batch';
+import { generatePuzzle, PuzzleGenerationError } from './generator';
+import { puzzleStorageMiddleware } from './middleware';
+import { getHint, InvalidPuzzleError, solvePuzzle, solvePuzzleIncrementally } from './solver';
+import { deletePuzzle, getPuzzle, listPuzzles, savePuzzle } from './storage';
+import { getVisionProvider, VisionConfigError } from './vision';
 
 // Create API router
 export const apiRouter = new Hono<AnthropicHonoEnv>();
 
 // Schema for the solve request
-const solveSchema = z.object({
-  gameState: z.object({
-    vials: z.array(z.array(z.string()))
-  }),
+const capacitySchema = z.number().int().min(1).max(12);
+
+// Aliases such as "teal" become palette ids; unknown names are left for the validator
+const colorSchema = z.string().transform(name => resolveColor(name) ?? name);
+
+const gameStateShape = z.object({
+  vials: z.array(z.array(colorSchema)),
+  capacity: capacitySchema.optional(),
+  vialCapacities: z.array(capacitySchema).optional()
+});
+
+const gameStateSchema = gameStateShape.superRefine((gameState, ctx) => {
+  if (gameState.vialCapacities && gameState.vialCapacities.length !== gameState.vials.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['vialCapacities'],
+      message: `Expected ${gameState.vials.length} vial capacities, got ${gameState.vialCapacities.length}`
+    });
+    return;
+  }
+
+  const capacities = getVialCapacities(gameState);
+  gameState.vials.forEach((vial, index) => {
+    if (vial.length > capacities[index]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vials', index],
+        message: `Vial ${index + 1} holds ${vial.length} layers but its capacity is ${capacities[index]}`
+      });
+    }
+  });
+});
+
+const solverOptionsShape = z.object({
+  strictMode: z.boolean(),
+  algorithm: z.enum(['bfs', 'astar']),
+  moveBudget: z.number().int().min(0),
+  alternatives: z.number().int().min(0).max(10),
+  maxStates: z.number().int().min(1).max(1000000)
+});
+
+const solverOptionsSchema = solverOptionsShape.partial().extend({
+  strictMode: solverOptionsShape.shape.strictMode.default(true),
+  algorithm: solverOptionsShape.shape.algorithm.default('bfs')
+});
+
+const solveSchema = solverOptionsSchema.extend({
+  gameState: gameStateSchema
+});
+
+// Schema for the batch solve request; per-puzzle options override the shared
+// ones, and alternatives aren't searched for in batches
+const batchSolveSchema = z.object({
+  puzzles: z.array(z.object({
+    gameState: gameStateSchema,
+    options: solverOptionsShape.omit({ alternatives: true }).partial().optional()
+  })).min(1).max(20),
+  options: solverOptionsSchema.omit({ alternatives: true }).default({})
+});
+
+// Schema for the hint request
+const hintSchema = z.object({
+  gameState: gameStateSchema,
+  strictMode: z.boolean().default(true)
+});
+
+// Schema for the generate request
+const generateSchema = z.object({
+  vialCount: z.number().int().min(2).max(20),
+  colorCount: z.number().int().min(1).max(getAvailableColors().length),
+  capacity: capacitySchema.default(4),
+  emptyVials: z.number().int().min(0).max(19).default(2),
+  seed: z.number().int().min(0).max(2 ** 32 - 1).optional(),
+  strictMode: z.boolean().default(true)
+});
+
+// Schema for the validate request; structural problems are reported by the validator
+const validateSchema = z.object({
+  gameState: gameStateShape,
   strictMode: z.boolean().default(true)
 });
 
+// Schema for the verify request; color and units are checked when given
+const verifySchema = z.object({
+  gameState: gameStateSchema,
+  moves: z.array(z.object({
+    from: z.number().int().min(0),
+    to: z.number().int().min(0),
+    color: colorSchema.optional(),
+    units: z.number().int().min(1).optional()
+  }))
+});
+
+// Schemas for stored puzzles
+const moveWithColorSchema = z.object({
+  from: z.number().int().min(0),
+  to: z.number().int().min(0),
+  color: z.string(),
+  units: z.number().int().min(1)
+});
+
+const solverResultSchema = z.object({
+  success: z.boolean(),
+  moves: z.array(moveWithColorSchema),
+  message: z.string().optional()
+}).passthrough();
+
+const savePuzzleSchema = z.object({
+  gameState: gameStateSchema,
+  solution: solverResultSchema.optional(),
+  imageHash: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a hex SHA-256 hash').optional()
+});
+
+const listPuzzlesSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional()
+});
+
 // Schema for image analysis request
 const imageAnalysisSchema = z.object({
   imageBase64: z.string().min(1),
-  fileType: z.enum(['png', 'jpg', 'jpeg'])
+  fileType: z.enum(['png', 'jpg', 'jpeg']),
+  // Defaults to the VISION_PROVIDER binding
+  analyzer: z.enum(['claude', 'local']).optional(),
+  // Layers per vial, for the local analyzer
+  capacity: capacitySchema.optional()
 });
 
 // Health check endpoint
 apiRouter.get('/health', (c) => {
-  return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+  return c.json({ status: 'ok', timestamp: new Date().toISOString(), storage: Boolean(c.env.PUZZLES) });
 });
 
 // Solve puzzle endpoint
 apiRouter.post('/solve', zValidator('json', solveSchema), async (c) => {
-  const { gameState, strictMode } = c.req.valid('json');
+  const { gameState, ...options } = c.req.valid('json');
   
   try {
-    const solution = solvePuzzle(gameState.vials, strictMode);
-    
-    if (!solution) {
-      return c.json<SolverResult>({
-        success: false, 
-        moves: [],
-        message: 'No solution found. The puzzle may be unsolvable or too complex.'
-      }, 200);
-    }
-    
-    return c.json<SolverResult>({
-      success: true,
-      moves: solution
-    }, 200);
+    const result = solvePuzzle(gameState, options);
+    return c.json<SolverResult>(result, 200);
   } catch (error) {
+    if (error instanceof InvalidPuzzleError) {
+      return c.json<SolverResult>(error.toResult(), 422);
+    }
+
     console.error('Solver error:', error);
     return c.json<SolverResult>({
       success: false,
@@ -57,23 +171,152 @@ apiRouter.post('/solve', zValidator('json', solveSchema), async (c) => {
   }
 });
 
-// Analyze image with Claude
-apiRouter.post(
-  '/analyze-image', 
-  anthropicMiddleware,
-  zValidator('json', imageAnalysisSchema), 
-  async (c) => {
-    const { imageBase64, fileType } = c.req.valid('json');
-    console.log('fileType', fileType);
+// Solve several puzzles at once; one failing doesn't stop the rest
+apiRouter.post('/solve/batch', zValidator('json', batchSolveSchema), (c) => {
+  const { puzzles, options } = c.req.valid('json');
+  return c.json<BatchSolveResult>(solveBatch(puzzles, options), 200);
+});
+
+// Solve puzzle endpoint streaming progress as Server-Sent Events:
+// `progress` events while searching, then a single `result` event
+apiRouter.post('/solve/stream', zValidator('json', solveSchema), (c) => {
+  const { gameState, ...options } = c.req.valid('json');
+
+  return streamSSE(c, async (stream) => {
+    let aborted = false;
+    stream.onAbort(() => {
+      aborted = true;
+    });
+
+    let result: SolverResult;
     try {
-      const result = await analyzeImage(imageBase64, fileType, c.get('anthropic'));
-      return c.json(result, 200);
+      const steps = solvePuzzleIncrementally(gameState, options);
+      for (;;) {
+        const step = steps.next();
+        if (step.done) {
+          result = step.value;
+          break;
+        }
+
+        // Stop searching once nobody is listening
+        if (aborted) return;
+
+        // Writing also yields to the event loop so the event gets flushed
+        await stream.writeSSE({ event: 'progress', data: JSON.stringify(step.value) });
+      }
     } catch (error) {
-      console.error('Claude API error:', error);
-      return c.json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to analyze image'
-      }, 500);
+      if (error instanceof InvalidPuzzleError) {
+        result = error.toResult();
+      } else {
+        console.error('Solver error:', error);
+        result = {
+          success: false,
+          moves: [],
+          message: error instanceof Error ? error.message : 'Unknown error solving puzzle'
+        };
+      }
+    }
+
+    await stream.writeSSE({ event: 'result', data: JSON.stringify(result) });
+  });
+});
+
+// Next optimal move from any state
+apiRouter.post('/hint', zValidator('json', hintSchema), (c) => {
+  const { gameState, strictMode } = c.req.valid('json');
+
+  try {
+    return c.json<HintResult>(getHint(gameState, { strictMode }), 200);
+  } catch (error) {
+    if (error instanceof InvalidPuzzleError) {
+      const { message, issues } = error.toResult();
+      return c.json<HintResult>({ success: false, message, issues }, 422);
     }
+
+    console.error('Hint error:', error);
+    return c.json<HintResult>({
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error finding a hint'
+    }, 500);
   }
-);
\ No newline at end of file
+});
+
+// Generate a random puzzle that is known to be solvable
+apiRouter.post('/generate', zValidator('json', generateSchema), (c) => {
+  try {
+    return c.json(generatePuzzle(c.req.valid('json')), 200);
+  } catch (error) {
+    if (error instanceof PuzzleGenerationError) {
+      return c.json({ error: error.message }, 422);
+    }
+
+    console.error('Generator error:', error);
+    return c.json({
+      error: error instanceof Error ? error.message : 'Unknown error generating puzzle'
+    }, 500);
+  }
+});
+
+// Validate puzzle endpoint
+apiRouter.post('/validate', zValidator('json', validateSchema), (c) => {
+  const { gameState, strictMode } = c.req.valid('json');
+  return c.json(validatePuzzle(gameState, { strictMode }), 200);
+});
+
+// Replay a solution and report the first illegal move
+apiRouter.post('/verify', zValidator('json', verifySchema), (c) => {
+  const { gameState, moves } = c.req.valid('json');
+  return c.json<VerifyResult>(replayMoves(gameState, moves), 200);
+});
+
+// Stored puzzle endpoints
+apiRouter.use('/puzzles/*', puzzleStorageMiddleware);
+
+apiRouter.post('/puzzles', zValidator('json', savePuzzleSchema), async (c) => {
+  const record = await savePuzzle(c.env.PUZZLES!, c.req.valid('json'));
+  return c.json(record, 201);
+});
+
+apiRouter.get('/puzzles', zValidator('query', listPuzzlesSchema), async (c) => {
+  return c.json(await listPuzzles(c.env.PUZZLES!, c.req.valid('query')), 200);
+});
+
+apiRouter.get('/puzzles/:id', async (c) => {
+  const record = await getPuzzle(c.env.PUZZLES!, c.req.param('id'));
+  if (!record) {
+    return c.json({ error: 'Puzzle not found' }, 404);
+  }
+  return c.json(record, 200);
+});
+
+apiRouter.delete('/puzzles/:id', async (c) => {
+  const deleted = await deletePuzzle(c.env.PUZZLES!, c.req.param('id'));
+  if (!deleted) {
+    return c.json({ error: 'Puzzle not found' }, 404);
+  }
+  return c.body(null, 204);
+});
+
+// Analyze image with the configured vision provider
+apiRouter.post('/analyze-image', zValidator('json', imageAnalysisSchema), async (c) => {
+  const { imageBase64, fileType, analyzer, capacity } = c.req.valid('json');
+
+  try {
+    const provider = getVisionProvider(c.env, analyzer);
+    const result = await provider.analyze(imageBase64, fileType, { capacity });
+    if (!result.success) {
+      console.error('Image analysis failed:', result.error);
+    }
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof VisionConfigError) {
+      return c.json({ success: false, error: error.message }, 500);
+    }
+
+    console.error('Image analysis error:', error);
+    return c.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to analyze image'
+    }, 500);
+  }
+});
@@ -1,243 +1,1074 @@
-import type { Color, Move, MoveWithColor, Vial } from '@/types';
+import type {
+  BudgetResult,
+  Color,
+  Difficulty,
+  DifficultyRating,
+  GameState,
+  HintResult,
+  Move,
+  MoveWithColor,
+  SearchEndReason,
+  SolverOptions,
+  SolverProgress,
+  SolverResult,
+  SolverStats,
+  ValidationIssue,
+  Vial
+} from '@/types';
+import { getVialCapacities, UNKNOWN_COLOR } from '@/utils';
+import { validatePuzzle } from '@/utils/validation';
+import { PriorityQueue } from './priorityQueue';
 
 // Constants
-const MAX_VIAL_CAPACITY = 4;
 const MAX_SEARCH_STATES = 1000000; // Limit search space for performance
+const PROGRESS_INTERVAL = 5000; // States explored between progress reports
+const EMPTY = 0; // Packed value of an empty layer
+const MAX_ALTERNATIVE_STATES = 200000; // Limit the search for alternative solutions
+const ALTERNATIVE_CANDIDATES = 20; // Solutions collected per one returned, to rank from
+const DIFFICULTY_SAMPLE_MOVES = 100000; // Moves the difficulty rating's sample may try
 
 /**
- * Game state representation
+ * Thrown when a puzzle fails validation before the search starts
  */
-class GameState {
-  vials: Vial[];
-  moves: Move[];
+export class InvalidPuzzleError extends Error {
+  issues: ValidationIssue[];
 
-  constructor(vials: Vial[], moves: Move[] = []) {
-    this.vials = vials.map(v => [...v]); // Deep copy
-    this.moves = [...moves];
+  constructor(issues: ValidationIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`Invalid puzzle: ${errors.map(issue => issue.message).join('; ')}`);
+    this.name = 'InvalidPuzzleError';
+    this.issues = issues;
   }
 
   /**
-   * Create a string representation for state comparison
+   * Failed solver result listing the validation issues
    */
-  toString(): string {
-    return this.vials.map(vial => vial.join(',')).join('|');
+  toResult(): SolverResult {
+    return {
+      success: false,
+      moves: [],
+      message: this.message,
+      issues: this.issues
+    };
   }
+}
 
-  /**
-   * Create a deep clone of this state
-   */
-  clone(): GameState {
-    return new GameState(
-      this.vials.map(vial => [...vial]),
-      [...this.moves]
-    );
-  }
+/**
+ * Layout shared by every state of one search.
+ *
+ * States are packed into a single Uint8Array holding each vial's layers
+ * bottom to top, zero-padded up to the vial's capacity. Colors are stored as
+ * 1-based indices into `colors`.
+ */
+interface Board {
+  colors: Color[];
+  capacities: number[];
+  offsets: number[]; // Index of each vial's bottom layer in the packed state
+  size: number; // Total layers across all vials
+  colorTotals: number[]; // Units of each color, indexed by packed value
+  groups: number[][]; // Vials sharing a capacity, which can be reordered freely
+}
+
+/**
+ * A packed state plus the move that produced it.
+ * Moves are recovered by following parent pointers instead of copying
+ * the move history into every state.
+ */
+interface SearchNode {
+  layers: Uint8Array;
+  parent: SearchNode | null;
+  from: number;
+  to: number;
+  depth: number;
 }
 
 /**
- * Count total number of each color in the puzzle
+ * Build the shared layout and the packed initial state
  */
-function getTotalColorCounts(vials: Vial[]): Record<string, number> {
-  const colorCounts: Record<string, number> = {};
-  for (const vial of vials) {
-    for (const color of vial) {
-      colorCounts[color] = (colorCounts[color] || 0) + 1;
+function createBoard(vials: Vial[], capacities: number[]): { board: Board, layers: Uint8Array } {
+  const colors: Color[] = [];
+  const colorIds = new Map<Color, number>();
+  const offsets: number[] = [];
+  const groupsByCapacity = new Map<number, number[]>();
+
+  let size = 0;
+  capacities.forEach((capacity, index) => {
+    offsets.push(size);
+    size += capacity;
+
+    const group = groupsByCapacity.get(capacity) ?? [];
+    group.push(index);
+    groupsByCapacity.set(capacity, group);
+  });
+
+  const layers = new Uint8Array(size);
+  const colorTotals = [0];
+
+  vials.forEach((vial, index) => {
+    if (vial.length > capacities[index]) {
+      throw new Error(`Vial ${index + 1} holds more than its capacity of ${capacities[index]}`);
     }
+
+    vial.forEach((color, position) => {
+      let id = colorIds.get(color);
+      if (id === undefined) {
+        if (colors.length === 255) throw new Error('Too many distinct colors');
+        colors.push(color);
+        id = colors.length;
+        colorIds.set(color, id);
+        colorTotals[id] = 0;
+      }
+      colorTotals[id]++;
+      layers[offsets[index] + position] = id;
+    });
+  });
+
+  return {
+    board: {
+      colors,
+      capacities,
+      offsets,
+      size,
+      colorTotals,
+      groups: [...groupsByCapacity.values()]
+    },
+    layers
+  };
+}
+
+/**
+ * Number of filled layers in a vial
+ */
+function getHeight(board: Board, layers: Uint8Array, vial: number): number {
+  const offset = board.offsets[vial];
+  let height = 0;
+  while (height < board.capacities[vial] && layers[offset + height] !== EMPTY) {
+    height++;
   }
-  return colorCounts;
+  return height;
 }
 
 /**
- * Check if a state is solved according to the rules
+ * Key identifying a state in the visited set.
+ *
+ * Vials of equal capacity are sorted, so states that only differ in the
+ * order of their vials share a key and are explored once.
  */
-function isSolved(state: GameState, strictMode: boolean): boolean {
-  // Basic check: each vial contains only one color or is empty
-  const basicCheck = state.vials.every(vial => 
-    vial.length === 0 || vial.every(color => color === vial[0])
-  );
-  
-  if (!basicCheck) return false;
-  
-  // If not in strict mode, the basic check is sufficient
-  if (!strictMode) return true;
-  
-  // Strict mode: Each color must be in exactly one vial and filled to capacity
-  const colorCounts = getTotalColorCounts(state.vials);
-  const colorLocations: Record<string, number> = {};
-  
-  for (let i = 0; i < state.vials.length; i++) {
-    const vial = state.vials[i];
-    if (vial.length === 0) continue;
-    
-    const color = vial[0];
-    
-    // If we've already seen this color in another vial
-    if (colorLocations[color] !== undefined) {
-      return false; // Color appears in multiple vials
-    }
-    
-    colorLocations[color] = i;
+function getCanonicalKey(board: Board, layers: Uint8Array): string {
+  let key = '';
+  for (const group of board.groups) {
+    const segments = group.map(vial => {
+      const offset = board.offsets[vial];
+      return String.fromCharCode(...layers.subarray(offset, offset + board.capacities[vial]));
+    });
+    key += segments.sort().join('');
   }
-  
-  // Check that each vial with a color has the maximum possible amount
-  for (const [color, totalCount] of Object.entries(colorCounts)) {
-    const vialIndex = colorLocations[color];
-    if (vialIndex === undefined) continue; // Skip if color has no location (shouldn't happen)
-    
-    const vial = state.vials[vialIndex];
-    
-    // In strict mode, the vial should have either the max capacity or the total count
-    // of this color, whichever is smaller
-    const expectedCount = Math.min(totalCount, MAX_VIAL_CAPACITY);
-    if (vial.length !== expectedCount) {
-      return false; // Vial doesn't have the maximum possible amount
+  return key;
+}
+
+/**
+ * Check if a state is solved according to the rules
+ */
+function isSolved(board: Board, layers: Uint8Array, strictMode: boolean): boolean {
+  for (let vial = 0; vial < board.capacities.length; vial++) {
+    const offset = board.offsets[vial];
+    const height = getHeight(board, layers, vial);
+    if (height === 0) continue;
+
+    // Basic check: each vial contains only one color or is empty
+    const color = layers[offset];
+    for (let i = 1; i < height; i++) {
+      if (layers[offset + i] !== color) return false;
     }
+
+    // Strict mode: every unit of the color must sit in this one vial
+    if (strictMode && height !== board.colorTotals[color]) return false;
   }
-  
+
   return true;
 }
 
 /**
  * Get the topmost color sequence from a vial
  */
-function getTopColorSequence(vial: Vial): { color: Color, count: number } | null {
-  if (vial.length === 0) return null;
-  
-  const topColor = vial[vial.length - 1];
-  let count = 0;
-  
-  for (let i = vial.length - 1; i >= 0; i--) {
-    if (vial[i] === topColor) {
-      count++;
-    } else {
-      break;
-    }
+function getTopColorSequence(board: Board, layers: Uint8Array, vial: number): { color: number, count: number } | null {
+  const offset = board.offsets[vial];
+  const height = getHeight(board, layers, vial);
+  if (height === 0) return null;
+
+  const color = layers[offset + height - 1];
+  let count = 1;
+  while (count < height && layers[offset + height - 1 - count] === color) {
+    count++;
   }
-  
-  return { color: topColor, count };
+
+  return { color, count };
 }
 
 /**
  * Check if a move is valid
  */
-function isValidMove(state: GameState, from: number, to: number): boolean {
-  const sourceVial = state.vials[from];
-  const destVial = state.vials[to];
-  
-  // Can't pour from empty vial
-  if (sourceVial.length === 0) return false;
-  
+function isValidMove(board: Board, layers: Uint8Array, from: number, to: number): boolean {
   // Can't pour to self
   if (from === to) return false;
-  
+
+  // Can't pour from empty vial
+  const sourceHeight = getHeight(board, layers, from);
+  if (sourceHeight === 0) return false;
+
   // Can't pour to full vial
-  if (destVial.length >= MAX_VIAL_CAPACITY) return false;
-  
+  const destHeight = getHeight(board, layers, to);
+  if (destHeight >= board.capacities[to]) return false;
+
   // Can pour to empty vial
-  if (destVial.length === 0) return true;
-  
+  if (destHeight === 0) return true;
+
   // Can pour only if top colors match
-  const sourceTop = sourceVial[sourceVial.length - 1];
-  const destTop = destVial[destVial.length - 1];
-  
+  const sourceTop = layers[board.offsets[from] + sourceHeight - 1];
+  const destTop = layers[board.offsets[to] + destHeight - 1];
+
   return sourceTop === destTop;
 }
 
 /**
- * Execute a move and return the new state
+ * Execute a move and return the new packed state
  */
-function executeMove(state: GameState, from: number, to: number): GameState {
-  if (!isValidMove(state, from, to)) {
+function executeMove(board: Board, layers: Uint8Array, from: number, to: number): Uint8Array {
+  if (!isValidMove(board, layers, from, to)) {
     throw new Error("Invalid move");
   }
-  
-  const newState = state.clone();
-  const sourceVial = newState.vials[from];
-  const destVial = newState.vials[to];
-  
-  const topSequence = getTopColorSequence(sourceVial);
-  if (!topSequence) return newState;
-  
+
+  const topSequence = getTopColorSequence(board, layers, from)!;
+  const sourceHeight = getHeight(board, layers, from);
+  const destHeight = getHeight(board, layers, to);
+
   // Calculate how many units we can pour
-  const spaceInDest = MAX_VIAL_CAPACITY - destVial.length;
+  const spaceInDest = board.capacities[to] - destHeight;
   const unitsToPour = Math.min(topSequence.count, spaceInDest);
-  
+
   // Pour the units
+  const newLayers = layers.slice();
   for (let i = 0; i < unitsToPour; i++) {
-    destVial.push(sourceVial.pop()!);
+    newLayers[board.offsets[from] + sourceHeight - 1 - i] = EMPTY;
+    newLayers[board.offsets[to] + destHeight + i] = topSequence.color;
   }
-  
-  // Record the move
-  newState.moves.push({ from, to });
-  
-  return newState;
+
+  return newLayers;
 }
 
 /**
  * Generate all possible next states
  */
-function generateNextStates(state: GameState): GameState[] {
-  const nextStates: GameState[] = [];
-  
-  for (let from = 0; from < state.vials.length; from++) {
-    for (let to = 0; to < state.vials.length; to++) {
-      if (isValidMove(state, from, to)) {
-        const newState = executeMove(state, from, to);
-        nextStates.push(newState);
+function generateNextStates(board: Board, node: SearchNode): SearchNode[] {
+  const nextStates: SearchNode[] = [];
+  const vialCount = board.capacities.length;
+
+  for (let from = 0; from < vialCount; from++) {
+    for (let to = 0; to < vialCount; to++) {
+      if (isValidMove(board, node.layers, from, to)) {
+        nextStates.push({
+          layers: executeMove(board, node.layers, from, to),
+          parent: node,
+          from,
+          to,
+          depth: node.depth + 1
+        });
       }
     }
   }
-  
+
   return nextStates;
 }
 
 /**
- * Solve the water sort puzzle using BFS
+ * Find a vial whose top layer is a hidden one, i.e. just got revealed
  */
-export function solvePuzzle(initialVials: Vial[], strictMode: boolean = true): MoveWithColor[] | null {
-  // Create initial state
-  const initialState = new GameState(initialVials);
-  
-  // Already solved?
-  if (isSolved(initialState, strictMode)) {
-    return [];
+function findRevealedVial(board: Board, layers: Uint8Array, hiddenColor: number): number {
+  for (let vial = 0; vial < board.capacities.length; vial++) {
+    const height = getHeight(board, layers, vial);
+    if (height > 0 && layers[board.offsets[vial] + height - 1] === hiddenColor) {
+      return vial;
+    }
   }
-  
-  // BFS algorithm
-  const queue: GameState[] = [initialState];
+  return -1;
+}
+
+/**
+ * Rebuild the move list by walking parent pointers back to the root
+ */
+function getMoves(node: SearchNode): Move[] {
+  const moves: Move[] = [];
+  for (let current: SearchNode | null = node; current?.parent; current = current.parent) {
+    moves.push({ from: current.from, to: current.to });
+  }
+  return moves.reverse();
+}
+
+/**
+ * Estimate the moves still needed to solve a state.
+ *
+ * A pour merges at most one pair of same-colored runs, so the number of runs
+ * left to merge never overestimates the remaining moves:
+ * - Strict mode ends with exactly one run per color
+ * - Lenient mode ends with one run per non-empty vial (no color boundaries)
+ */
+function estimateRemainingMoves(board: Board, layers: Uint8Array, strictMode: boolean): number {
+  let runs = 0;
+  let nonEmptyVials = 0;
+
+  for (let vial = 0; vial < board.capacities.length; vial++) {
+    const offset = board.offsets[vial];
+    const height = getHeight(board, layers, vial);
+    if (height === 0) continue;
+    nonEmptyVials++;
+    for (let i = 0; i < height; i++) {
+      if (i === 0 || layers[offset + i] !== layers[offset + i - 1]) runs++;
+    }
+  }
+
+  return runs - (strictMode ? board.colors.length : nonEmptyVials);
+}
+
+/**
+ * Where a search ended and how much work it took to get there
+ */
+interface SearchOutcome {
+  node: SearchNode | null;
+  endReason: SearchEndReason;
+  statesExplored: number;
+  visitedStates: number;
+  peakQueueSize: number;
+  // Explored states with no move to a state not seen before
+  deadEnds: number;
+}
+
+/**
+ * Breadth-first search, returning the first (shortest) node that reaches the goal
+ */
+function* searchBfs(
+  board: Board,
+  root: SearchNode,
+  strictMode: boolean,
+  isGoal: (layers: Uint8Array) => boolean = layers => isSolved(board, layers, strictMode),
+  maxStates = MAX_SEARCH_STATES
+): Generator<SolverProgress, SearchOutcome, void> {
+  let queue: SearchNode[] = [root];
   const visited = new Set<string>();
-  visited.add(initialState.toString());
-  
+  visited.add(getCanonicalKey(board, root.layers));
+
+  // Read the queue through an index instead of shift(), which is O(n)
+  let head = 0;
   let statesExplored = 0;
-  
-  while (queue.length > 0 && statesExplored < MAX_SEARCH_STATES) {
-    const currentState = queue.shift()!;
+  let peakQueueSize = 1;
+  let deadEnds = 0;
+  let bestEstimate = Infinity;
+
+  const outcome = (node: SearchNode | null, endReason: SearchEndReason): SearchOutcome => ({
+    node,
+    endReason,
+    statesExplored,
+    visitedStates: visited.size,
+    peakQueueSize,
+    deadEnds
+  });
+
+  while (head < queue.length) {
+    if (statesExplored >= maxStates) {
+      return outcome(null, 'state-limit');
+    }
+
+    const currentNode = queue[head++];
     statesExplored++;
-    
-    const nextStates = generateNextStates(currentState);
-    
-    for (const nextState of nextStates) {
-      const stateStr = nextState.toString();
-      
-      if (!visited.has(stateStr)) {
-        if (isSolved(nextState, strictMode)) {
-          // Convert moves to MoveWithColor format
-          return enrichMoves(nextState.moves, initialVials);
+
+    bestEstimate = Math.min(bestEstimate, estimateRemainingMoves(board, currentNode.layers, strictMode));
+    if (statesExplored % PROGRESS_INTERVAL === 0) {
+      yield { statesExplored, depth: currentNode.depth, bestEstimate };
+    }
+
+    // Drop explored nodes from the queue now and then; they stay
+    // reachable through parent pointers only while still needed
+    if (head > 65536 && head * 2 > queue.length) {
+      queue = queue.slice(head);
+      head = 0;
+    }
+
+    const queued = queue.length;
+    for (const nextNode of generateNextStates(board, currentNode)) {
+      const key = getCanonicalKey(board, nextNode.layers);
+
+      if (!visited.has(key)) {
+        if (isGoal(nextNode.layers)) {
+          return outcome(nextNode, 'solved');
         }
-        
-        visited.add(stateStr);
-        queue.push(nextState);
+
+        visited.add(key);
+        queue.push(nextNode);
       }
     }
+    if (queue.length === queued) deadEnds++;
+
+    peakQueueSize = Math.max(peakQueueSize, queue.length - head);
   }
-  
-  return null; // No solution found or search limit reached
+
+  return outcome(null, 'exhausted');
+}
+
+/**
+ * A* search guided by estimateRemainingMoves.
+ *
+ * The estimate is consistent, so the first solved node taken off the queue
+ * is reached by a shortest move sequence, same as BFS.
+ */
+function* searchAStar(
+  board: Board,
+  root: SearchNode,
+  strictMode: boolean,
+  maxStates = MAX_SEARCH_STATES
+): Generator<SolverProgress, SearchOutcome, void> {
+  interface Entry {
+    node: SearchNode;
+    key: string;
+    estimate: number; // Moves made so far plus estimated moves remaining
+  }
+
+  // Lowest estimate first; on ties prefer nodes closer to the goal
+  const queue = new PriorityQueue<Entry>((a, b) =>
+    a.estimate - b.estimate || b.node.depth - a.node.depth
+  );
+  const bestCost = new Map<string, number>();
+
+  const rootKey = getCanonicalKey(board, root.layers);
+  queue.push({
+    node: root,
+    key: rootKey,
+    estimate: estimateRemainingMoves(board, root.layers, strictMode)
+  });
+  bestCost.set(rootKey, 0);
+
+  let statesExplored = 0;
+  let peakQueueSize = 1;
+  let deadEnds = 0;
+  let bestEstimate = Infinity;
+
+  const outcome = (node: SearchNode | null, endReason: SearchEndReason): SearchOutcome => ({
+    node,
+    endReason,
+    statesExplored,
+    visitedStates: bestCost.size,
+    peakQueueSize,
+    deadEnds
+  });
+
+  while (queue.size > 0) {
+    const { node, key, estimate } = queue.pop()!;
+
+    // Skip stale entries superseded by a cheaper path
+    if (node.depth > bestCost.get(key)!) continue;
+
+    if (statesExplored >= maxStates) {
+      return outcome(null, 'state-limit');
+    }
+    statesExplored++;
+
+    bestEstimate = Math.min(bestEstimate, estimate - node.depth);
+    if (statesExplored % PROGRESS_INTERVAL === 0) {
+      yield { statesExplored, depth: node.depth, bestEstimate };
+    }
+
+    if (isSolved(board, node.layers, strictMode)) {
+      return outcome(node, 'solved');
+    }
+
+    const queued = queue.size;
+    for (const nextNode of generateNextStates(board, node)) {
+      const nextKey = getCanonicalKey(board, nextNode.layers);
+      const knownCost = bestCost.get(nextKey);
+
+      if (knownCost === undefined || nextNode.depth < knownCost) {
+        bestCost.set(nextKey, nextNode.depth);
+        queue.push({
+          node: nextNode,
+          key: nextKey,
+          estimate: nextNode.depth + estimateRemainingMoves(board, nextNode.layers, strictMode)
+        });
+      }
+    }
+    if (queue.size === queued) deadEnds++;
+
+    peakQueueSize = Math.max(peakQueueSize, queue.size);
+  }
+
+  return outcome(null, 'exhausted');
+}
+
+/**
+ * Explain why a search ended without a solution
+ */
+function getFailureMessage(endReason: SearchEndReason, hasHiddenLayers: boolean, maxStates: number): string {
+  if (endReason === 'state-limit') {
+    return `Search gave up after exploring ${maxStates} states. The puzzle may be solvable but is too complex.`;
+  }
+  return hasHiddenLayers
+    ? 'No sequence of moves uncovers a hidden layer.'
+    : 'No solution exists: every reachable state was explored.';
+}
+
+/**
+ * Score how far a state has come, for move-budget mode
+ */
+function scoreProgress(board: Board, layers: Uint8Array, strictMode: boolean): Omit<BudgetResult, 'moveBudget' | 'finished'> {
+  let completedVials = 0;
+
+  for (let vial = 0; vial < board.capacities.length; vial++) {
+    const sequence = getTopColorSequence(board, layers, vial);
+    if (!sequence || sequence.count !== getHeight(board, layers, vial)) continue;
+
+    // A vial is complete once it's full or holds every unit of its color
+    if (sequence.count === board.capacities[vial] || sequence.count === board.colorTotals[sequence.color]) {
+      completedVials++;
+    }
+  }
+
+  const fragmentation = estimateRemainingMoves(board, layers, strictMode);
+  return {
+    completedVials,
+    fragmentation,
+    score: completedVials * 100 - fragmentation
+  };
+}
+
+/**
+ * Breadth-first search over every state reachable within the move budget,
+ * returning the one with the best progress score (fewest moves on ties), or
+ * the first solved state it reaches
+ */
+function* searchWithinBudget(
+  board: Board,
+  root: SearchNode,
+  strictMode: boolean,
+  moveBudget: number,
+  maxStates = MAX_SEARCH_STATES
+): Generator<SolverProgress, SearchOutcome, void> {
+  let queue: SearchNode[] = [root];
+  const visited = new Set<string>();
+  visited.add(getCanonicalKey(board, root.layers));
+
+  let head = 0;
+  let statesExplored = 0;
+  let peakQueueSize = 1;
+  let deadEnds = 0;
+  let best = root;
+  let bestScore = scoreProgress(board, root.layers, strictMode).score;
+
+  const outcome = (endReason: SearchEndReason): SearchOutcome => ({
+    node: best,
+    endReason,
+    statesExplored,
+    visitedStates: visited.size,
+    peakQueueSize,
+    deadEnds
+  });
+
+  while (head < queue.length) {
+    if (statesExplored >= maxStates) {
+      return outcome('state-limit');
+    }
+
+    const currentNode = queue[head++];
+    statesExplored++;
+
+    if (statesExplored % PROGRESS_INTERVAL === 0) {
+      yield {
+        statesExplored,
+        depth: currentNode.depth,
+        bestEstimate: estimateRemainingMoves(board, best.layers, strictMode)
+      };
+    }
+
+    if (head > 65536 && head * 2 > queue.length) {
+      queue = queue.slice(head);
+      head = 0;
+    }
+
+    if (currentNode.depth >= moveBudget) continue;
+
+    const queued = queue.length;
+    for (const nextNode of generateNextStates(board, currentNode)) {
+      const key = getCanonicalKey(board, nextNode.layers);
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      if (isSolved(board, nextNode.layers, strictMode)) {
+        best = nextNode;
+        return outcome('solved');
+      }
+
+      const { score } = scoreProgress(board, nextNode.layers, strictMode);
+      if (score > bestScore) {
+        best = nextNode;
+        bestScore = score;
+      }
+      queue.push(nextNode);
+    }
+    if (queue.length === queued) deadEnds++;
+
+    peakQueueSize = Math.max(peakQueueSize, queue.length - head);
+  }
+
+  return outcome('move-budget');
+}
+
+/**
+ * Identify a solution by the states it passes through, with the same vial
+ * symmetry as the visited set, so solutions that only swap interchangeable
+ * vials count as one
+ */
+function getPathKey(board: Board, layers: Uint8Array, moves: Move[]): string {
+  const keys: string[] = [];
+  for (const { from, to } of moves) {
+    layers = executeMove(board, layers, from, to);
+    keys.push(getCanonicalKey(board, layers));
+  }
+  return keys.join(',');
+}
+
+/**
+ * Find distinct solutions of at most `maxDepth` moves. A breadth-first search
+ * visits each canonical state once, skipping those the estimate rules out, and
+ * records the moves between them; a second pass from the solved states gives
+ * each state's distance to a solution. Solutions are then read off by only
+ * following moves that still reach one within `maxDepth`, so nothing is
+ * explored twice and every path followed ends in a solution.
+ */
+function* searchAlternatives(
+  board: Board,
+  root: SearchNode,
+  strictMode: boolean,
+  maxDepth: number,
+  limit: number,
+  found: Map<string, Move[]>
+): Generator<SolverProgress, number, void> {
+  const keys = [getCanonicalKey(board, root.layers)];
+  const states = [root.layers];
+  const depths = [0];
+  const children: number[][] = [[]];
+  const indexByKey = new Map([[keys[0], 0]]);
+  const solved: number[] = [];
+  let statesExplored = 0;
+
+  for (let head = 0; head < states.length && statesExplored < MAX_ALTERNATIVE_STATES; head++) {
+    const layers = states[head];
+    statesExplored++;
+
+    if (statesExplored % PROGRESS_INTERVAL === 0) {
+      yield { statesExplored, depth: depths[head], bestEstimate: estimateRemainingMoves(board, layers, strictMode) };
+    }
+
+    if (isSolved(board, layers, strictMode)) {
+      solved.push(head);
+      continue;
+    }
+    if (depths[head] >= maxDepth) continue;
+
+    for (let from = 0; from < board.capacities.length; from++) {
+      for (let to = 0; to < board.capacities.length; to++) {
+        if (!isValidMove(board, layers, from, to)) continue;
+
+        const nextLayers = executeMove(board, layers, from, to);
+        const depth = depths[head] + 1;
+        if (depth + estimateRemainingMoves(board, nextLayers, strictMode) > maxDepth) continue;
+
+        const key = getCanonicalKey(board, nextLayers);
+        let child = indexByKey.get(key);
+        if (child === undefined) {
+          child = states.length;
+          indexByKey.set(key, child);
+          keys.push(key);
+          states.push(nextLayers);
+          depths.push(depth);
+          children.push([]);
+        }
+        if (!children[head].includes(child)) children[head].push(child);
+      }
+    }
+  }
+
+  // Distance from each state to the nearest solved one, walking the moves backwards
+  const parents: number[][] = states.map(() => []);
+  children.forEach((list, parent) => list.forEach(child => parents[child].push(parent)));
+  const distance = states.map(() => Infinity);
+  const queue = [...solved];
+  for (const state of solved) distance[state] = 0;
+  for (let head = 0; head < queue.length; head++) {
+    for (const parent of parents[queue[head]]) {
+      if (distance[parent] === Infinity) {
+        distance[parent] = distance[queue[head]] + 1;
+        queue.push(parent);
+      }
+    }
+  }
+
+  const path = [0];
+  const collect = (state: number): void => {
+    if (distance[state] === 0) {
+      const pathKey = path.slice(1).map(index => keys[index]).join(',');
+      if (!found.has(pathKey)) found.set(pathKey, getPathMoves(board, root.layers, path.slice(1).map(index => keys[index])));
+      return;
+    }
+
+    for (const child of children[state]) {
+      if (found.size >= limit) return;
+      if (path.length + distance[child] > maxDepth) continue;
+
+      path.push(child);
+      collect(child);
+      path.pop();
+    }
+  };
+  collect(0);
+
+  return statesExplored;
+}
+
+/**
+ * Turn a sequence of canonical states back into moves from the given layers
+ */
+function getPathMoves(board: Board, layers: Uint8Array, keys: string[]): Move[] {
+  return keys.map(key => {
+    for (let from = 0; from < board.capacities.length; from++) {
+      for (let to = 0; to < board.capacities.length; to++) {
+        if (!isValidMove(board, layers, from, to)) continue;
+
+        const nextLayers = executeMove(board, layers, from, to);
+        if (getCanonicalKey(board, nextLayers) === key) {
+          layers = nextLayers;
+          return { from, to };
+        }
+      }
+    }
+    throw new Error('No move leads to the next state');
+  });
+}
+
+/**
+ * How awkward a solution is to carry out: vials poured from, then vials touched
+ */
+function rankSolution(moves: Move[]): [number, number, number] {
+  const sources = new Set(moves.map(move => move.from));
+  const touched = new Set(moves.flatMap(move => [move.from, move.to]));
+  return [moves.length, sources.size, touched.size];
+}
+
+/**
+ * Find up to `count` other solutions as short as the given one, or one move
+ * longer when there aren't enough, easiest to carry out first
+ */
+function* findAlternatives(
+  board: Board,
+  root: SearchNode,
+  strictMode: boolean,
+  solution: Move[],
+  count: number
+): Generator<SolverProgress, Move[][], void> {
+  const found = new Map<string, Move[]>();
+  const solutionKey = getPathKey(board, root.layers, solution);
+  const limit = (count + 1) * ALTERNATIVE_CANDIDATES;
+
+  for (const maxDepth of [solution.length, solution.length + 1]) {
+    yield* searchAlternatives(board, root, strictMode, maxDepth, limit, found);
+    found.delete(solutionKey);
+    if (found.size >= count) break;
+  }
+
+  return [...found.values()]
+    .map(moves => ({ moves, rank: rankSolution(moves) }))
+    .sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1] || a.rank[2] - b.rank[2])
+    .slice(0, count)
+    .map(({ moves }) => moves);
+}
+
+/**
+ * Breadth-first pass over the first states reachable from the start,
+ * counting the distinct moves from each unsolved one. It runs the same way
+ * whichever algorithm solved the puzzle, so ratings don't depend on it, and
+ * stops after a fixed number of moves, so puzzles with many moves per state
+ * sample fewer states.
+ */
+function sampleStates(board: Board, root: SearchNode, strictMode: boolean) {
+  const queue = [root.layers];
+  const visited = new Set([getCanonicalKey(board, root.layers)]);
+  let statesSampled = 0;
+  let totalChoices = 0;
+  let forcedStates = 0;
+  let deadEnds = 0;
+  let movesTried = 0;
+
+  for (let head = 0; head < queue.length && movesTried < DIFFICULTY_SAMPLE_MOVES; head++) {
+    const layers = queue[head];
+    if (isSolved(board, layers, strictMode)) continue;
+    statesSampled++;
+
+    // Moves leading to the same canonical state are one choice
+    const choices = new Set<string>();
+    const queued = queue.length;
+    for (let from = 0; from < board.capacities.length; from++) {
+      for (let to = 0; to < board.capacities.length; to++) {
+        if (!isValidMove(board, layers, from, to)) continue;
+
+        movesTried++;
+        const nextLayers = executeMove(board, layers, from, to);
+        const key = getCanonicalKey(board, nextLayers);
+        choices.add(key);
+        if (!visited.has(key)) {
+          visited.add(key);
+          queue.push(nextLayers);
+        }
+      }
+    }
+
+    totalChoices += choices.size;
+    if (choices.size === 1) forcedStates++;
+    if (queue.length === queued) deadEnds++;
+  }
+
+  return { statesSampled, totalChoices, forcedStates, deadEnds };
+}
+
+/**
+ * Rate how hard a puzzle is on a 0-100 scale, from the length of its shortest
+ * solution and the states near the start:
+ * - Longer solutions are harder (up to 40 points)
+ * - More distinct moves to choose from (up to 20)
+ * - More of the states are dead ends (up to 25)
+ * - Fewer of the states allow only one move (up to 15)
+ */
+function rateDifficulty(
+  board: Board,
+  root: SearchNode,
+  optimalLength: number,
+  strictMode: boolean
+): Difficulty {
+  const { statesSampled, totalChoices, forcedStates, deadEnds } = sampleStates(board, root, strictMode);
+  const branchingFactor = statesSampled > 0 ? totalChoices / statesSampled : 0;
+  const deadEndShare = statesSampled > 0 ? deadEnds / statesSampled : 0;
+  const forcedShare = statesSampled > 0 ? forcedStates / statesSampled : 0;
+
+  const score = Math.round(
+    Math.min(optimalLength / 40, 1) * 40 +
+    Math.min(branchingFactor / 15, 1) * 20 +
+    Math.min(deadEndShare * 2, 1) * 25 +
+    (optimalLength > 0 ? 1 - forcedShare : 0) * 15
+  );
+  const rating: DifficultyRating = score < 25 ? 'easy' : score < 50 ? 'medium' : score < 75 ? 'hard' : 'expert';
+
+  return {
+    score,
+    rating,
+    optimalLength,
+    branchingFactor: Math.round(branchingFactor * 10) / 10,
+    deadEnds,
+    forcedMoves: forcedStates
+  };
+}
+
+/**
+ * Solve the water sort puzzle step by step.
+ * Yields progress every few thousand states so callers can report it or
+ * hand control back to the event loop; returns the final result.
+ *
+ * With a move budget, a solution that doesn't fit is replaced by the moves
+ * within budget that make the most progress. Budgets are ignored while
+ * hidden layers remain, since only the way to the next reveal is planned.
+ */
+export function* solvePuzzleIncrementally(
+  puzzle: GameState,
+  options: SolverOptions = {}
+): Generator<SolverProgress, SolverResult, void> {
+  const {
+    strictMode = true,
+    algorithm = 'bfs',
+    moveBudget,
+    alternatives = 0,
+    maxStates = MAX_SEARCH_STATES
+  } = options;
+
+  // Report concrete problems instead of searching an unsolvable puzzle
+  const validation = validatePuzzle(puzzle, { strictMode });
+  if (!validation.valid) {
+    throw new InvalidPuzzleError(validation.issues);
+  }
+
+  // Workers only advance the clock across I/O, so server-side timings can read 0
+  const startTime = Date.now();
+  const initialVials = puzzle.vials;
+  const capacities = getVialCapacities(puzzle);
+
+  // Create initial state
+  const { board, layers } = createBoard(initialVials, capacities);
+  const root: SearchNode = { layers, parent: null, from: -1, to: -1, depth: 0 };
+
+  // How far the returned moves get, reported only in move-budget mode
+  const getBudgetResult = (finalLayers: Uint8Array, finished: boolean): BudgetResult | undefined =>
+    moveBudget === undefined
+      ? undefined
+      : { moveBudget, finished, ...scoreProgress(board, finalLayers, strictMode) };
+
+  // Already solved?
+  if (isSolved(board, layers, strictMode)) {
+    return {
+      success: true,
+      moves: [],
+      budget: getBudgetResult(layers, true),
+      stats: {
+        statesExplored: 0,
+        visitedStates: 1,
+        peakQueueSize: 0,
+        deadEnds: 0,
+        elapsedMs: Date.now() - startTime,
+        endReason: 'already-solved'
+      }
+    };
+  }
+
+  // With hidden layers the rest of the puzzle is unknown, so only plan
+  // the shortest way to uncover one; the caller re-solves once it's known
+  const hiddenColor = board.colors.indexOf(UNKNOWN_COLOR) + 1;
+  const hasHiddenLayers = hiddenColor > 0;
+
+  const { node, endReason, ...counters } = hasHiddenLayers
+    ? yield* searchBfs(board, root, strictMode, nextLayers =>
+      findRevealedVial(board, nextLayers, hiddenColor) !== -1
+    , maxStates)
+    : algorithm === 'astar'
+      ? yield* searchAStar(board, root, strictMode, maxStates)
+      : yield* searchBfs(board, root, strictMode, undefined, maxStates);
+
+  const stats: SolverStats = {
+    ...counters,
+    elapsedMs: Date.now() - startTime,
+    endReason: node && hasHiddenLayers ? 'revealed' : endReason
+  };
+
+  // Only rate complete solutions; with hidden layers the rest is unknown
+  const difficulty = node && !hasHiddenLayers ? rateDifficulty(board, root, node.depth, strictMode) : undefined;
+
+  if (hasHiddenLayers && node) {
+    const vial = findRevealedVial(board, node.layers, hiddenColor);
+    return {
+      success: true,
+      moves: enrichMoves(getMoves(node), initialVials, capacities),
+      message: `Make these moves, then enter the color revealed in vial ${vial + 1} and solve again.`,
+      reveal: { vial },
+      stats
+    };
+  }
+
+  // The full solution doesn't fit the budget: settle for the best progress
+  if (!hasHiddenLayers && moveBudget !== undefined && (!node || node.depth > moveBudget)) {
+    const partial = yield* searchWithinBudget(board, root, strictMode, moveBudget, maxStates);
+    // The first search may have stopped at the state limit short of a solution the budget allows
+    const finished = isSolved(board, partial.node!.layers, strictMode);
+
+    return {
+      success: true,
+      moves: enrichMoves(getMoves(partial.node!), initialVials, capacities),
+      message: finished
+        ? `These ${partial.node!.depth} moves solve the puzzle within the budget of ${moveBudget}.`
+        : node
+          ? `The puzzle needs ${node.depth} moves, more than the budget of ${moveBudget}. These moves make the most progress.`
+          : `No full solution was found. These ${partial.node!.depth} moves make the most progress within the budget.`,
+      budget: getBudgetResult(partial.node!.layers, finished),
+      difficulty,
+      stats: {
+        statesExplored: counters.statesExplored + partial.statesExplored,
+        visitedStates: Math.max(counters.visitedStates, partial.visitedStates),
+        peakQueueSize: Math.max(counters.peakQueueSize, partial.peakQueueSize),
+        deadEnds: counters.deadEnds + partial.deadEnds,
+        elapsedMs: Date.now() - startTime,
+        endReason: partial.endReason
+      }
+    };
+  }
+
+  if (!node) {
+    return {
+      success: false,
+      moves: [],
+      message: getFailureMessage(endReason, hasHiddenLayers, maxStates),
+      stats
+    };
+  }
+
+  // Convert moves to MoveWithColor format
+  const moves = getMoves(node);
+  const otherSolutions = alternatives > 0
+    ? yield* findAlternatives(board, root, strictMode, moves, alternatives)
+    : [];
+
+  return {
+    success: true,
+    moves: enrichMoves(moves, initialVials, capacities),
+    alternatives: otherSolutions.length > 0
+      ? otherSolutions.map(other => enrichMoves(other, initialVials, capacities))
+      : undefined,
+    budget: getBudgetResult(node.layers, true),
+    difficulty,
+    stats
+  };
+}
+
+/**
+ * Solve the water sort puzzle, returning a shortest sequence of moves
+ * along with statistics about the search
+ */
+export function solvePuzzle(
+  puzzle: GameState,
+  options: SolverOptions = {},
+  onProgress?: (progress: SolverProgress) => void
+): SolverResult {
+  const steps = solvePuzzleIncrementally(puzzle, options);
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+    onProgress?.(step.value);
+  }
+}
+
+/**
+ * Find the next move on a shortest path from any state, e.g. one reached
+ * by playing a few moves by hand
+ */
+export function getHint(
+  puzzle: GameState,
+  { strictMode = true }: Pick<SolverOptions, 'strictMode'> = {}
+): HintResult {
+  // A* finds an optimal path too, with far fewer states than BFS
+  const { moves, success, message, stats, reveal } = solvePuzzle(puzzle, { strictMode, algorithm: 'astar' });
+
+  if (!success) {
+    return { success, message, stats };
+  }
+
+  if (moves.length === 0) {
+    return { success, remainingMoves: 0, message: 'The puzzle is already solved', stats };
+  }
+
+  return {
+    success,
+    move: moves[0],
+    remainingMoves: moves.length,
+    message: reveal
+      ? `${moves.length} moves until the hidden layer in vial ${reveal.vial + 1} is revealed`
+      : `${moves.length} moves left`,
+    stats,
+    reveal
+  };
 }
 
 /**
  * Enriches moves with color and unit information
  */
-function enrichMoves(moves: Move[], initialVials: Vial[]): MoveWithColor[] {
+function enrichMoves(moves: Move[], initialVials: Vial[], capacities: number[]): MoveWithColor[] {
   const result: MoveWithColor[] = [];
   const currentVials = initialVials.map(vial => [...vial]); // Deep copy
   
@@ -263,7 +1094,7 @@ function enrichMoves(moves: Move[], initialVials: Vial[]): MoveWithColor[] {
     
     // Calculate actual units poured
     const destVial = currentVials[to];
-    const spaceInDest = MAX_VIAL_CAPACITY - destVial.length;
+    const spaceInDest = capacities[to] - destVial.length;
     const unitsToPour = Math.min(count, spaceInDest);
     
     // Record the enriched move
@@ -0,0 +1,89 @@
+import type { CloudData, CloudDataSummary } from '@/types';
+
+const KEY_PREFIX = 'puzzle:';
+const ID_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const ID_LENGTH = 10;
+
+/**
+ * Generate a short random id that reads well in a URL
+ */
+function generateId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH));
+  return Array.from(bytes, byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+}
+
+/**
+ * Summary kept in KV metadata so listing doesn't read every puzzle
+ */
+function summarize(data: CloudData): CloudDataSummary {
+  return {
+    id: data.id,
+    created: data.created,
+    vialCount: data.gameState.vials.length,
+    solved: data.solution?.success ?? false,
+    moveCount: data.solution?.success ? data.solution.moves.length : undefined,
+    imageHash: data.imageHash
+  };
+}
+
+/**
+ * Store a puzzle, its solution and the screenshot hash under a new id
+ * @param kv Puzzle namespace binding
+ * @param data Everything but the id and creation time
+ * @returns The stored record
+ */
+export async function savePuzzle(
+  kv: KVNamespace,
+  data: Omit<CloudData, 'id' | 'created'>
+): Promise<CloudData> {
+  const record: CloudData = {
+    id: generateId(),
+    created: new Date().toISOString(),
+    ...data
+  };
+
+  await kv.put(KEY_PREFIX + record.id, JSON.stringify(record), {
+    metadata: summarize(record)
+  });
+
+  return record;
+}
+
+/**
+ * Load a stored puzzle
+ * @returns The record, or null when no puzzle has this id
+ */
+export async function getPuzzle(kv: KVNamespace, id: string): Promise<CloudData | null> {
+  return kv.get<CloudData>(KEY_PREFIX + id, 'json');
+}
+
+/**
+ * List stored puzzles a page at a time
+ * @param options cursor from the previous page, limit of puzzles per page
+ * @returns Summaries plus a cursor when more pages remain
+ */
+export async function listPuzzles(
+  kv: KVNamespace,
+  { cursor, limit = 50 }: { cursor?: string, limit?: number } = {}
+): Promise<{ puzzles: CloudDataSummary[], cursor?: string }> {
+  const page = await kv.list<CloudDataSummary>({ prefix: KEY_PREFIX, cursor, limit });
+
+  return {
+    puzzles: page.keys
+      .map(key => key.metadata)
+      .filter((summary): summary is CloudDataSummary => !!summary),
+    cursor: page.list_complete ? undefined : page.cursor
+  };
+}
+
+/**
+ * Delete a stored puzzle
+ * @returns False when no puzzle had this id
+ */
+export async function deletePuzzle(kv: KVNamespace, id: string): Promise<boolean> {
+  const key = KEY_PREFIX + id;
+  if (await kv.get(key) === null) return false;
+
+  await kv.delete(key);
+  return true;
+}
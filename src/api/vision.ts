@@ -0,0 +1,109 @@
+import type { ClaudeAnalysisResult, HONO_BINDINGS, ImageAnalyzer } from '@/types';
+import { sha256Hex } from '@/utils/hash';
+import { Anthropic } from '@anthropic-ai/sdk';
+import { analyzeImage, DEFAULT_CLAUDE_MODEL } from './claude';
+import { analyzeImageLocally } from './localAnalyzer';
+import { DEFAULT_FIXTURE, VISION_FIXTURES } from './visionFixtures';
+
+export type ImageFileType = 'png' | 'jpg' | 'jpeg';
+
+/**
+ * Turns a screenshot into a game state
+ */
+export interface VisionProvider {
+  readonly name: ImageAnalyzer | 'mock';
+  analyze(
+    imageBase64: string,
+    fileType: ImageFileType,
+    options?: { capacity?: number }
+  ): Promise<ClaudeAnalysisResult>;
+}
+
+/**
+ * Thrown when the chosen provider can't run with the current bindings
+ */
+export class VisionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VisionConfigError';
+  }
+}
+
+// Reused across requests served by the same isolate
+let cachedAnthropic: { apiKey: string, client: Anthropic } | null = null;
+
+/**
+ * Get an Anthropic client for the key, creating one only when the key changes
+ */
+function getAnthropicClient(apiKey: string): Anthropic {
+  if (cachedAnthropic?.apiKey !== apiKey) {
+    cachedAnthropic = { apiKey, client: new Anthropic({ apiKey }) };
+  }
+  return cachedAnthropic.client;
+}
+
+/**
+ * Provider asking Claude to read the screenshot
+ * @param anthropic Anthropic client instance
+ * @param model Claude model to use
+ */
+export function createClaudeProvider(anthropic: Anthropic, model = DEFAULT_CLAUDE_MODEL): VisionProvider {
+  return {
+    name: 'claude',
+    analyze: (imageBase64, fileType) => analyzeImage(imageBase64, fileType, anthropic, model)
+  };
+}
+
+/**
+ * Provider matching pixels against the palette, without any API calls
+ */
+export const localProvider: VisionProvider = {
+  name: 'local',
+  analyze: (imageBase64, fileType, options) => analyzeImageLocally(imageBase64, fileType, options)
+};
+
+/**
+ * Provider answering from fixtures keyed by the image's SHA-256 hash, for
+ * testing offline
+ * @param fixtures Answers by image hash
+ * @param fallback Answer for images without a fixture
+ */
+export function createMockProvider(
+  fixtures: Record<string, ClaudeAnalysisResult> = VISION_FIXTURES,
+  fallback: ClaudeAnalysisResult = DEFAULT_FIXTURE
+): VisionProvider {
+  return {
+    name: 'mock',
+    analyze: async (imageBase64) => fixtures[await sha256Hex(imageBase64)] ?? fallback
+  };
+}
+
+/**
+ * Pick the vision provider from the bindings:
+ * - VISION_PROVIDER "mock" answers every request from fixtures (VISION_FIXTURES
+ *   may add more, as JSON keyed by image hash)
+ * - Otherwise the requested analyzer, defaulting to VISION_PROVIDER or Claude
+ * @param env Worker bindings, or the same settings from the command line
+ * @param requested Analyzer asked for by the request, if any
+ * @returns The provider
+ * @throws VisionConfigError when Claude is chosen but no API key is set
+ */
+export function getVisionProvider(
+  env: Pick<HONO_BINDINGS, 'ANTHROPIC_API_KEY' | 'VISION_PROVIDER' | 'VISION_FIXTURES' | 'CLAUDE_MODEL'>,
+  requested?: ImageAnalyzer
+): VisionProvider {
+  if (env.VISION_PROVIDER === 'mock') {
+    const fixtures = env.VISION_FIXTURES
+      ? { ...VISION_FIXTURES, ...JSON.parse(env.VISION_FIXTURES) as Record<string, ClaudeAnalysisResult> }
+      : VISION_FIXTURES;
+    return createMockProvider(fixtures);
+  }
+
+  const analyzer = requested ?? (env.VISION_PROVIDER === 'local' ? 'local' : 'claude');
+  if (analyzer === 'local') return localProvider;
+
+  if (!env.ANTHROPIC_API_KEY) {
+    throw new VisionConfigError('Anthropic API key is not set');
+  }
+  return createClaudeProvider(getAnthropicClient(env.ANTHROPIC_API_KEY), env.CLAUDE_MODEL);
+}
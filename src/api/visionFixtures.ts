@@ -0,0 +1,21 @@
+import type { ClaudeAnalysisResult } from '@/types';
+
+// What the mock provider answers for images it has no fixture for:
+// a small puzzle that is quick to solve
+export const DEFAULT_FIXTURE: ClaudeAnalysisResult = {
+  success: true,
+  gameState: {
+    capacity: 4,
+    vials: [
+      ['red', 'blue', 'green', 'red'],
+      ['green', 'red', 'blue', 'green'],
+      ['blue', 'green', 'red', 'blue'],
+      [],
+      []
+    ]
+  }
+};
+
+// Built-in answers keyed by the SHA-256 hash of the image (hex);
+// more can be supplied through the VISION_FIXTURES binding
+export const VISION_FIXTURES: Record<string, ClaudeAnalysisResult> = {};
@@ -0,0 +1,94 @@
+import type { ClaudeAnalysisResult, MoveWithColor, SolverResult } from '@/types';
+import { LOW_CONFIDENCE } from '@/utils';
+import { encodePuzzle } from '@/utils/notation';
+
+/**
+ * Plain-text output for the command line
+ */
+
+/**
+ * Lay rows out in columns, numbers right-aligned
+ */
+function formatTable(header: string[], rows: (string | number)[][]): string {
+  const cells = [header, ...rows.map(row => row.map(String))];
+  const widths = header.map((_, column) => Math.max(...cells.map(row => row[column].length)));
+
+  return cells.map((row, index) => row.map((cell, column) => {
+    const numeric = index > 0 && typeof rows[index - 1][column] === 'number';
+    return numeric ? cell.padStart(widths[column]) : cell.padEnd(widths[column]);
+  }).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Moves as a numbered table, vials counted from 1
+ */
+export function formatMoves(moves: MoveWithColor[]): string {
+  return formatTable(
+    ['#', 'From', 'To', 'Color', 'Units'],
+    moves.map((move, index) => [index + 1, move.from + 1, move.to + 1, move.color, move.units])
+  );
+}
+
+/**
+ * Summary line and move table for a solver result
+ */
+export function formatSolution(result: SolverResult): string {
+  if (!result.success) {
+    // The message of an invalid puzzle repeats its issues
+    return result.issues?.length
+      ? ['Invalid puzzle:', ...result.issues.map(issue => `  ${issue.severity}: ${issue.message}`)].join('\n')
+      : result.message || 'No solution found';
+  }
+
+  const lines: string[] = [];
+  if (result.moves.length === 0) {
+    lines.push('Already solved');
+  } else if (result.reveal) {
+    lines.push(`${result.moves.length} moves until the hidden layer in vial ${result.reveal.vial + 1} is revealed`);
+  } else {
+    lines.push(`Solved in ${result.moves.length} moves`);
+  }
+
+  if (result.difficulty) {
+    lines.push(`Difficulty: ${result.difficulty.rating} (${result.difficulty.score}/100)`);
+  }
+  if (result.stats) {
+    lines.push(`Explored ${result.stats.statesExplored} states in ${Math.round(result.stats.elapsedMs)} ms`);
+  }
+  if (result.moves.length > 0) {
+    lines.push('', formatMoves(result.moves));
+  }
+
+  result.alternatives?.forEach((moves, index) => {
+    lines.push('', `Alternative ${index + 1} (${moves.length} moves)`, formatMoves(moves));
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * The vials read from a screenshot, with layers worth checking marked
+ */
+export function formatAnalysis(result: ClaudeAnalysisResult): string {
+  if (!result.success || !result.gameState) {
+    return result.error || 'Failed to analyze image';
+  }
+
+  const { gameState, confidence } = result;
+  const notation = encodePuzzle(gameState);
+  const lines = [
+    `${gameState.vials.length} vials` + (notation !== null ? `: ${notation}` : ''),
+    ''
+  ];
+
+  gameState.vials.forEach((vial, vialIndex) => {
+    const layers = vial.map((color, layer) => {
+      const reading = confidence?.[vialIndex]?.[layer];
+      if (reading?.ambiguousWith) return `${color} (or ${reading.ambiguousWith}?)`;
+      return reading && reading.confidence < LOW_CONFIDENCE ? `${color} (?)` : color;
+    });
+    lines.push(`Vial ${vialIndex + 1}: ${layers.length > 0 ? layers.join(', ') : 'empty'}`);
+  });
+
+  return lines.join('\n');
+}
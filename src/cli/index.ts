@@ -0,0 +1,259 @@
+import { InvalidPuzzleError, solvePuzzle } from '@/api/solver';
+import { getVisionProvider, type ImageFileType, VisionConfigError } from '@/api/vision';
+import type { ClaudeAnalysisResult, GameState, ImageAnalyzer, SolverAlgorithm, SolverResult } from '@/types';
+import { resolveColor } from '@/utils';
+import { decodePuzzle } from '@/utils/notation';
+import { webcrypto } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { formatAnalysis, formatSolution } from './format';
+
+/**
+ * `water-sort` command line: solve puzzles and read screenshots with the
+ * same modules the Worker uses, without a network round trip
+ */
+
+// Node 18 has no global Web Crypto, which the mock provider hashes images with
+if (!globalThis.crypto) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
+
+const EXIT_UNSOLVED = 1; // No solution, or the image couldn't be read
+const EXIT_USAGE = 2; // Bad arguments or input, including invalid puzzles
+
+const USAGE = `Usage:
+  water-sort solve <puzzle> [options]    Solve a puzzle given as a JSON file, JSON,
+                                         compact notation (e.g. "3/rgb,bgr,grb,,") or - for stdin
+  water-sort analyze <image> [options]   Read a PNG or JPEG screenshot, then solve it with --solve
+
+Options:
+  --json                        Print JSON instead of a table
+  --lenient                     Allow a color to end up split across vials
+  --algorithm <bfs|astar>       Search strategy (default astar)
+  --alternatives <n>            Also list up to n other solutions
+  --provider <mock|local|claude>
+                                Image analyzer (default: VISION_PROVIDER, then Claude
+                                when ANTHROPIC_API_KEY is set, then local)
+  --fixtures <file>             JSON answers for the mock provider, keyed by image SHA-256
+  --capacity <n>                Layers per vial, for the local analyzer
+  --solve                       Solve the puzzle read from the image
+  -h, --help                    Show this help
+
+Exits with 1 when there is no solution or the image can't be read, and 2 on bad input such as an invalid puzzle.`;
+
+/**
+ * Thrown for arguments or input the CLI can't use
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type CliOptions = ReturnType<typeof parseOptions>['values'];
+
+/**
+ * Split the arguments into options and the command with its input
+ * @throws UsageError for unknown options or missing option values
+ */
+function parseCommandLine(args: string[]) {
+  try {
+    return parseOptions(args);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseOptions(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      lenient: { type: 'boolean', default: false },
+      algorithm: { type: 'string', default: 'astar' },
+      alternatives: { type: 'string' },
+      provider: { type: 'string' },
+      fixtures: { type: 'string' },
+      capacity: { type: 'string' },
+      solve: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+}
+
+/**
+ * Parse a whole number option
+ */
+function parseCount(name: string, value: string | undefined, min = 0): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}, got "${value}"`);
+  }
+  return count;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Read a puzzle from a file, stdin or the argument itself, as JSON or compact notation
+ * @throws UsageError when it is neither
+ */
+async function loadPuzzle(source: string): Promise<GameState> {
+  const text = (source === '-'
+    ? await readStdin()
+    : existsSync(source) ? await readFile(source, 'utf8') : source).trim();
+
+  if (!text.startsWith('{')) {
+    try {
+      return decodePuzzle(text);
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : 'Invalid puzzle notation');
+    }
+  }
+
+  let parsed: { gameState?: GameState } & Partial<GameState>;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new UsageError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Accept a bare game state or a request body wrapping one
+  const gameState = parsed.gameState ?? parsed;
+  if (!Array.isArray(gameState.vials) || !gameState.vials.every(vial => Array.isArray(vial))) {
+    throw new UsageError('Invalid JSON: expected a "vials" array of arrays');
+  }
+
+  return {
+    ...gameState,
+    vials: gameState.vials.map(vial => vial.map(color => resolveColor(String(color)) ?? String(color)))
+  } as GameState;
+}
+
+/**
+ * Solve with the command-line options, turning invalid puzzles into a failed result
+ */
+function solve(gameState: GameState, options: CliOptions): SolverResult {
+  const algorithm = options.algorithm as SolverAlgorithm;
+  if (algorithm !== 'bfs' && algorithm !== 'astar') {
+    throw new UsageError(`--algorithm must be bfs or astar, got "${options.algorithm}"`);
+  }
+
+  try {
+    return solvePuzzle(gameState, {
+      strictMode: !options.lenient,
+      algorithm,
+      alternatives: parseCount('alternatives', options.alternatives)
+    });
+  } catch (error) {
+    if (error instanceof InvalidPuzzleError) return error.toResult();
+    throw error;
+  }
+}
+
+/**
+ * Exit code for a solver result; invalid puzzles count as bad input
+ */
+function getExitCode(result: SolverResult): number {
+  if (result.success) return 0;
+  return result.issues?.length ? EXIT_USAGE : EXIT_UNSOLVED;
+}
+
+/**
+ * Read a screenshot with the chosen vision provider
+ */
+async function analyze(path: string, options: CliOptions): Promise<ClaudeAnalysisResult> {
+  const extension = extname(path).slice(1).toLowerCase();
+  if (extension !== 'png' && extension !== 'jpg' && extension !== 'jpeg') {
+    throw new UsageError(`Expected a .png, .jpg or .jpeg image, got "${path}"`);
+  }
+  if (!existsSync(path)) {
+    throw new UsageError(`No such file: ${path}`);
+  }
+
+  const { provider, fixtures } = options;
+  if (provider !== undefined && !['mock', 'local', 'claude'].includes(provider)) {
+    throw new UsageError(`--provider must be mock, local or claude, got "${provider}"`);
+  }
+
+  // --provider wins over VISION_PROVIDER, which in turn wins over the API key
+  const apiKey = process.env.ANTHROPIC_API_KEY ?? '';
+  const env = {
+    ANTHROPIC_API_KEY: apiKey,
+    VISION_PROVIDER: provider ? (provider === 'mock' ? 'mock' : undefined) : process.env.VISION_PROVIDER,
+    VISION_FIXTURES: fixtures ? await readFile(fixtures, 'utf8') : process.env.VISION_FIXTURES,
+    CLAUDE_MODEL: process.env.CLAUDE_MODEL
+  };
+  const requested = provider === 'mock'
+    ? undefined
+    : (provider as ImageAnalyzer | undefined) ?? (env.VISION_PROVIDER || apiKey ? undefined : 'local');
+
+  const imageBase64 = (await readFile(path)).toString('base64');
+  return getVisionProvider(env, requested).analyze(imageBase64, extension as ImageFileType, {
+    capacity: parseCount('capacity', options.capacity, 1)
+  });
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values: options, positionals } = parseCommandLine(args);
+  const [command, input] = positionals;
+
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : EXIT_USAGE;
+  }
+  if (!input) {
+    throw new UsageError(`Missing the ${command === 'analyze' ? 'image' : 'puzzle'} to ${command}`);
+  }
+
+  switch (command) {
+    case 'solve': {
+      const result = solve(await loadPuzzle(input), options);
+      console.log(options.json ? JSON.stringify(result, null, 2) : formatSolution(result));
+      return getExitCode(result);
+    }
+
+    case 'analyze': {
+      const analysis = await analyze(input, options);
+      const solution = options.solve && analysis.success && analysis.gameState
+        ? solve(analysis.gameState, options)
+        : undefined;
+
+      if (options.json) {
+        console.log(JSON.stringify(solution ? { analysis, solution } : { analysis }, null, 2));
+      } else {
+        console.log(formatAnalysis(analysis));
+        if (solution) console.log(`\n${formatSolution(solution)}`);
+      }
+      if (!analysis.success) return EXIT_UNSOLVED;
+      return solution ? getExitCode(solution) : 0;
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof UsageError || error instanceof VisionConfigError) {
+      console.error(`water-sort: ${error.message}` + (error instanceof UsageError ? `\n\n${USAGE}` : ''));
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    console.error(`water-sort: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = EXIT_UNSOLVED;
+  }
+);
@@ -1,13 +1,30 @@
+import { useColorblindMode } from '@/client/hooks/useColorblindMode';
 import { Outlet } from '@tanstack/react-router';
 import React from 'react';
 
 const App: React.FC = () => {
+  const [colorblindMode, setColorblindMode] = useColorblindMode();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-blue-600 text-white shadow-md">
         <div className="container mx-auto px-4 py-4">
-          <h1 className="text-2xl font-bold">Water Sort Puzzle Solver</h1>
-          <p className="text-blue-100">Solve your puzzles with AI-powered image recognition and the <a href="https://en.wikipedia.org/wiki/Breadth-first_search" target="_blank" rel="noopener noreferrer" className="text-blue-100 underline">BFS</a> algorithm</p>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h1 className="text-2xl font-bold">Water Sort Puzzle Solver</h1>
+            <label
+              className="flex items-center text-sm text-blue-100"
+              title="Mark each color with its own shape and outline every layer"
+            >
+              <input
+                type="checkbox"
+                checked={colorblindMode}
+                onChange={(e) => setColorblindMode(e.target.checked)}
+                className="mr-2"
+              />
+              Colorblind mode
+            </label>
+          </div>
+          <p className="text-blue-100">Solve your puzzles with AI-powered image recognition and the <a href="https://en.wikipedia.org/wiki/Breadth-first_search" target="_blank" rel="noopener noreferrer" className="text-blue-100 underline">BFS</a> and <a href="https://en.wikipedia.org/wiki/A*_search_algorithm" target="_blank" rel="noopener noreferrer" className="text-blue-100 underline">A*</a> algorithms</p>
         </div>
       </header>
 
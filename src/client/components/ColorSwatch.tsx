@@ -0,0 +1,30 @@
+import { useColorblindMode } from '@/client/hooks/useColorblindMode';
+import type { Color } from '@/types';
+import { getColorGlyph, getColorHex, getContrastColor } from '@/utils';
+import React from 'react';
+
+interface ColorSwatchProps {
+  color: Color;
+  // Size and spacing classes
+  className?: string;
+}
+
+// Small color chip shown next to a color's name, so screen readers skip it
+const ColorSwatch: React.FC<ColorSwatchProps> = ({ color, className = 'w-4 h-4' }) => {
+  const [colorblindMode] = useColorblindMode();
+  const hex = getColorHex(color);
+
+  return (
+    <span
+      aria-hidden="true"
+      className={`${className} rounded inline-flex items-center justify-center align-middle text-xs leading-none ${
+        colorblindMode ? 'ring-1 ring-black' : ''
+      }`}
+      style={{ backgroundColor: hex, color: getContrastColor(hex) }}
+    >
+      {colorblindMode && getColorGlyph(color)}
+    </span>
+  );
+};
+
+export default ColorSwatch;
@@ -0,0 +1,27 @@
+import type { Difficulty, DifficultyRating } from '@/types';
+import React from 'react';
+
+const RATING_STYLES: Record<DifficultyRating, string> = {
+  'easy': 'bg-green-100 text-green-800 border-green-200',
+  'medium': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  'hard': 'bg-orange-100 text-orange-800 border-orange-200',
+  'expert': 'bg-red-100 text-red-800 border-red-200'
+};
+
+/**
+ * Difficulty rating with the numbers behind it in a tooltip
+ */
+const DifficultyBadge: React.FC<{ difficulty: Difficulty }> = ({ difficulty }) => (
+  <span
+    className={`px-2 py-1 border rounded-full text-xs font-medium capitalize ${RATING_STYLES[difficulty.rating]}`}
+    title={
+      `Score ${difficulty.score}/100: ${difficulty.optimalLength} moves, ` +
+      `${difficulty.branchingFactor} choices per position, ${difficulty.forcedMoves.toLocaleString()} forced, ` +
+      `${difficulty.deadEnds.toLocaleString()} dead ends`
+    }
+  >
+    {difficulty.rating} · {difficulty.score}
+  </span>
+);
+
+export default DifficultyBadge;
@@ -1,29 +1,82 @@
-import type { GameState } from '@/types';
-import { getAvailableColors, getColorHex } from '@/utils';
-import React, { useEffect, useState } from 'react';
+import { useColorblindMode } from '@/client/hooks/useColorblindMode';
+import type { ClaudeAnalysisResult, GameState, GeneratorOptions } from '@/types';
+import {
+  DEFAULT_VIAL_CAPACITY,
+  getAvailableColors,
+  getColorGlyph,
+  getColorHex,
+  getContrastColor,
+  getVialCapacities,
+  LOW_CONFIDENCE,
+  resolveColor,
+  UNKNOWN_COLOR
+} from '@/utils';
+import { validatePuzzle } from '@/utils/validation';
+import React, { useEffect, useMemo, useState } from 'react';
 import VialVisualizer from './VialVisualizer';
 
 interface GameStateEditorProps {
   gameState: GameState | null;
   onChange: (newState: GameState) => void;
   onSolve: () => void;
+  onHint?: () => void;
+  onGenerate?: (options: GeneratorOptions) => void;
   isLoading: boolean;
+  strictMode?: boolean;
+  // Image analysis the puzzle came from, to highlight layers worth checking
+  analysis?: ClaudeAnalysisResult | null;
 }
 
-// Maximum vial capacity
-const MAX_VIAL_CAPACITY = 4;
-
 const GameStateEditor: React.FC<GameStateEditorProps> = ({ 
   gameState, 
   onChange, 
   onSolve,
-  isLoading
+  onHint,
+  onGenerate,
+  isLoading,
+  strictMode = true,
+  analysis
 }) => {
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
   const [localState, setLocalState] = useState<GameState>({ vials: [] });
   const [jsonMode, setJsonMode] = useState<boolean>(false);
   const [jsonInput, setJsonInput] = useState<string>('');
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [randomColors, setRandomColors] = useState<number>(5);
+  const [randomEmptyVials, setRandomEmptyVials] = useState<number>(2);
+  const [randomSeed, setRandomSeed] = useState<string>('');
+  const [confirmedLayers, setConfirmedLayers] = useState<Set<string>>(new Set());
+  const [colorblindMode] = useColorblindMode();
+
+  const capacities = getVialCapacities(localState);
+
+  // Check the puzzle as it is edited so problems show up before solving
+  const validation = useMemo(
+    () => validatePuzzle(localState, { strictMode }),
+    [localState, strictMode]
+  );
+
+  // Analyzed layers to check, until they're repainted or changed
+  const layerWarnings = useMemo(
+    () => localState.vials.map((vial, vialIndex) => vial.map((color, layer) => {
+      const reading = analysis?.confidence?.[vialIndex]?.[layer];
+      if (!reading || confirmedLayers.has(`${vialIndex}:${layer}`)) return null;
+      if (analysis?.gameState?.vials[vialIndex]?.[layer] !== color) return null;
+
+      const certainty = `${Math.round(reading.confidence * 100)}% sure`;
+      if (reading.ambiguousWith) return `${color} or ${reading.ambiguousWith}? (${certainty})`;
+      if (reading.confidence < LOW_CONFIDENCE) return `${color}? (${certainty})`;
+      return null;
+    })),
+    [localState, analysis, confirmedLayers]
+  );
+  const flaggedLayers = layerWarnings.flatMap((warnings, vialIndex) => warnings.flatMap(
+    (warning, layer) => warning ? [{ vialIndex, layer, warning }] : []
+  ));
+
+  useEffect(() => {
+    setConfirmedLayers(new Set());
+  }, [analysis]);
 
   // Initialize with empty vials or from provided state
   useEffect(() => {
@@ -56,16 +109,17 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
     // Clicked on an existing color or an empty space
     if (position >= vial.length) {
       // Adding to the top of the vial
-      if (vial.length < MAX_VIAL_CAPACITY) {
+      if (vial.length < capacities[vialIndex]) {
         vial.push(selectedColor);
       }
     } else {
-      // Replace a color at a specific position
+      // Replace a color at a specific position, which also confirms an analyzed layer
       vial[position] = selectedColor;
+      setConfirmedLayers(new Set(confirmedLayers).add(`${vialIndex}:${position}`));
     }
 
     newVials[vialIndex] = vial;
-    const newState = { vials: newVials };
+    const newState = { ...localState, vials: newVials };
     setLocalState(newState);
     onChange(newState);
   };
@@ -73,14 +127,20 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
   const handleVialClear = (vialIndex: number) => {
     const newVials = [...localState.vials.map(vial => [...vial])];
     newVials[vialIndex] = [];
-    const newState = { vials: newVials };
+    const newState = { ...localState, vials: newVials };
     setLocalState(newState);
     onChange(newState);
   };
 
   const handleAddVial = () => {
     const newVials = [...localState.vials.map(vial => [...vial]), []];
-    const newState = { vials: newVials };
+    const newState: GameState = { ...localState, vials: newVials };
+    if (localState.vialCapacities) {
+      newState.vialCapacities = [
+        ...localState.vialCapacities,
+        localState.capacity ?? DEFAULT_VIAL_CAPACITY
+      ];
+    }
     setLocalState(newState);
     onChange(newState);
   };
@@ -88,11 +148,34 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
   const handleRemoveVial = () => {
     if (localState.vials.length <= 1) return;
     const newVials = localState.vials.slice(0, -1).map(vial => [...vial]);
-    const newState = { vials: newVials };
+    const newState: GameState = { ...localState, vials: newVials };
+    if (localState.vialCapacities) {
+      newState.vialCapacities = localState.vialCapacities.slice(0, -1);
+    }
+    setLocalState(newState);
+    onChange(newState);
+  };
+
+  const handleCapacityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const capacity = parseInt(e.target.value);
+    if (isNaN(capacity) || capacity < 1) return;
+    const newState = { ...localState, capacity };
     setLocalState(newState);
     onChange(newState);
   };
 
+  const handleGenerate = () => {
+    if (!onGenerate) return;
+    const seed = parseInt(randomSeed);
+    onGenerate({
+      vialCount: randomColors + randomEmptyVials,
+      colorCount: randomColors,
+      capacity: localState.capacity ?? DEFAULT_VIAL_CAPACITY,
+      emptyVials: randomEmptyVials,
+      seed: isNaN(seed) ? undefined : seed
+    });
+  };
+
   const toggleJsonMode = () => {
     setJsonMode(!jsonMode);
   };
@@ -111,14 +194,19 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
         throw new Error('Invalid JSON: missing vials array');
       }
       
+      if (parsed.vialCapacities && parsed.vialCapacities.length !== parsed.vials.length) {
+        throw new Error('Invalid JSON: vialCapacities must have one entry per vial');
+      }
+      
       // Validate each vial
+      const parsedCapacities = getVialCapacities(parsed);
       parsed.vials.forEach((vial, index) => {
         if (!Array.isArray(vial)) {
           throw new Error(`Invalid vial at index ${index}: not an array`);
         }
         
-        if (vial.length > MAX_VIAL_CAPACITY) {
-          throw new Error(`Vial at index ${index} exceeds maximum capacity (${MAX_VIAL_CAPACITY})`);
+        if (vial.length > parsedCapacities[index]) {
+          throw new Error(`Vial at index ${index} exceeds maximum capacity (${parsedCapacities[index]})`);
         }
         
         vial.forEach((color, colorIndex) => {
@@ -127,6 +215,9 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
           }
         });
       });
+
+      // Accept aliases such as "teal" for the palette's own names
+      parsed.vials = parsed.vials.map(vial => vial.map(color => resolveColor(color) ?? color));
       
       setLocalState(parsed);
       onChange(parsed);
@@ -149,6 +240,54 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
         </button>
       </div>
 
+      {/* Random puzzle */}
+      {onGenerate && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <label className="flex items-center">
+            <span className="mr-1">Colors</span>
+            <input
+              type="number"
+              min={1}
+              max={getAvailableColors().length}
+              value={randomColors}
+              onChange={(e) => setRandomColors(Math.max(parseInt(e.target.value) || 1, 1))}
+              className="w-14 px-2 py-1 border rounded-md"
+            />
+          </label>
+          <label className="flex items-center">
+            <span className="mr-1">Empty vials</span>
+            <input
+              type="number"
+              min={0}
+              max={4}
+              value={randomEmptyVials}
+              onChange={(e) => setRandomEmptyVials(Math.max(parseInt(e.target.value) || 0, 0))}
+              className="w-14 px-2 py-1 border rounded-md"
+            />
+          </label>
+          <label className="flex items-center">
+            <span className="mr-1">Seed</span>
+            <input
+              type="number"
+              min={0}
+              value={randomSeed}
+              onChange={(e) => setRandomSeed(e.target.value)}
+              placeholder="Random"
+              className="w-24 px-2 py-1 border rounded-md"
+            />
+          </label>
+          <button
+            onClick={handleGenerate}
+            disabled={isLoading}
+            className={`px-4 py-2 border rounded-md font-medium transition-colors ${
+              isLoading ? 'text-gray-400 cursor-not-allowed' : 'bg-gray-50 hover:bg-gray-100'
+            }`}
+          >
+            Random Puzzle
+          </button>
+        </div>
+      )}
+
       {jsonMode ? (
         <div className="space-y-4">
           <textarea
@@ -181,15 +320,33 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
                 <button
                   key={colorName}
                   onClick={() => handleColorSelect(colorName)}
-                  className={`w-10 h-10 rounded-full transition-all ${
+                  className={`w-10 h-10 rounded-full transition-all font-bold ${
                     selectedColor === colorName 
                       ? 'ring-2 ring-offset-2 ring-blue-500 shadow-md' 
                       : 'hover:scale-110'
-                  }`}
-                  style={{ backgroundColor: getColorHex(colorName) }}
+                  } ${colorblindMode ? 'border-2 border-black' : ''}`}
+                  style={{ backgroundColor: getColorHex(colorName), color: getContrastColor(getColorHex(colorName)) }}
                   title={colorName}
-                />
+                  aria-label={colorName}
+                  aria-pressed={selectedColor === colorName}
+                >
+                  <span aria-hidden="true">{colorblindMode && getColorGlyph(colorName)}</span>
+                </button>
               ))}
+              <button
+                onClick={() => handleColorSelect(UNKNOWN_COLOR)}
+                className={`w-10 h-10 rounded-full transition-all text-white font-bold ${
+                  selectedColor === UNKNOWN_COLOR 
+                    ? 'ring-2 ring-offset-2 ring-blue-500 shadow-md' 
+                    : 'hover:scale-110'
+                }`}
+                style={{ backgroundColor: getColorHex(UNKNOWN_COLOR) }}
+                title="Hidden layer"
+                aria-label="Hidden layer"
+                aria-pressed={selectedColor === UNKNOWN_COLOR}
+              >
+                {UNKNOWN_COLOR}
+              </button>
             </div>
           </div>
 
@@ -197,7 +354,18 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
           <div className="mb-6">
             <div className="flex justify-between items-center mb-2">
               <h3 className="font-medium">Vials</h3>
-              <div className="space-x-2">
+              <div className="flex items-center space-x-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  Capacity
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={localState.capacity ?? DEFAULT_VIAL_CAPACITY}
+                    onChange={handleCapacityChange}
+                    className="ml-2 w-14 px-2 py-1 border rounded"
+                  />
+                </label>
                 <button
                   onClick={handleAddVial}
                   className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 transition-colors text-sm"
@@ -219,8 +387,11 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
                 <div key={vialIndex} className="flex flex-col items-center">
                   <VialVisualizer 
                     vial={vial}
+                    capacity={capacities[vialIndex]}
+                    label={`Vial ${vialIndex + 1}`}
                     onLayerClick={(position) => handleVialClick(vialIndex, position)}
                     interactive={true}
+                    layerWarnings={layerWarnings[vialIndex]}
                   />
                   <div className="mt-2 text-center">
                     <div className="text-gray-700 font-medium mb-1">Vial {vialIndex + 1}</div>
@@ -238,19 +409,63 @@ const GameStateEditor: React.FC<GameStateEditorProps> = ({
         </div>
       )}
 
-      {/* Solve button */}
-      <div className="mt-6">
+      {/* Layers the image analysis wasn't sure about */}
+      {flaggedLayers.length > 0 && (
+        <div className="mt-6 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+          <p className="font-medium">
+            Check the highlighted layers before solving. Paint each with the right color to confirm it.
+          </p>
+          <ul className="mt-1 space-y-1">
+            {flaggedLayers.map(({ vialIndex, layer, warning }) => (
+              <li key={`${vialIndex}:${layer}`}>
+                Vial {vialIndex + 1}, layer {layer + 1}: {warning}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Validation issues */}
+      {validation.issues.length > 0 && (
+        <ul className="mt-6 space-y-1 text-sm">
+          {validation.issues.map((issue, index) => (
+            <li
+              key={index}
+              className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}
+            >
+              {issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Solve and hint buttons */}
+      <div className="mt-6 flex gap-2">
         <button
           onClick={onSolve}
-          disabled={isLoading || localState.vials.length === 0}
-          className={`w-full py-2 rounded-md transition-colors font-medium ${
-            isLoading || localState.vials.length === 0
+          disabled={isLoading || !validation.valid}
+          className={`flex-1 py-2 rounded-md transition-colors font-medium ${
+            isLoading || !validation.valid
               ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-blue-600 text-white hover:bg-blue-700'
           }`}
         >
           {isLoading ? 'Solving...' : 'Solve Puzzle'}
         </button>
+        {onHint && (
+          <button
+            onClick={onHint}
+            disabled={isLoading || !validation.valid}
+            title="Make the next move of a shortest solution"
+            className={`px-4 py-2 border rounded-md transition-colors font-medium ${
+              isLoading || !validation.valid
+                ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                : 'bg-gray-50 hover:bg-gray-100'
+            }`}
+          >
+            Hint
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,192 @@
+import type { GameState, MoveWithColor, SolverResult, Vial } from '@/types';
+import { getVialCapacities } from '@/utils';
+import { pour } from '@/utils/moves';
+import React, { useRef, useState } from 'react';
+import ColorSwatch from './ColorSwatch';
+import VialVisualizer from './VialVisualizer';
+
+interface PlayModeProps {
+  gameState: GameState;
+  // Vials to start playing from
+  startVials: Vial[];
+  // Solution to follow from startVials, possibly an alternative
+  line: MoveWithColor[];
+  // Moves the shortest solution needs from startVials, to count extra moves against
+  optimalLength: number;
+  onSolveFrom: (state: GameState) => Promise<SolverResult>;
+  onExit: () => void;
+}
+
+// One position in the game, with a shortest way on from it when known
+interface PlayStep {
+  vials: Vial[];
+  move: MoveWithColor | null;
+  line: MoveWithColor[] | null;
+}
+
+const PlayMode: React.FC<PlayModeProps> = ({
+  gameState,
+  startVials,
+  line,
+  optimalLength,
+  onSolveFrom,
+  onExit
+}) => {
+  const [steps, setSteps] = useState<PlayStep[]>([
+    { vials: startVials, move: null, line }
+  ]);
+  const [selectedVial, setSelectedVial] = useState<number | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Only the latest re-solve may update the line
+  const solveIdRef = useRef(0);
+
+  const capacities = getVialCapacities(gameState);
+  const current = steps[steps.length - 1];
+  const movesMade = steps.length - 1;
+  const nextMove = current.line?.[0] ?? null;
+  const extraMoves = current.line ? movesMade + current.line.length - optimalLength : null;
+  const isSolved = current.line?.length === 0;
+
+  /**
+   * Find a new shortest line after leaving the old one
+   */
+  const resolveFrom = async (vials: Vial[], stepIndex: number) => {
+    const solveId = ++solveIdRef.current;
+    setIsSolving(true);
+
+    const result = await onSolveFrom({ ...gameState, vials }).catch((err): SolverResult => ({
+      success: false,
+      moves: [],
+      message: err instanceof Error ? err.message : 'Error solving puzzle'
+    }));
+    if (solveId !== solveIdRef.current) return;
+
+    setIsSolving(false);
+    if (result.success) {
+      setSteps(prev => prev.map((step, index) => index === stepIndex ? { ...step, line: result.moves } : step));
+    } else {
+      setMessage(result.message || 'No solution from here. Undo a few moves.');
+    }
+  };
+
+  const handleVialClick = (index: number) => {
+    setMessage(null);
+
+    if (selectedVial === null) {
+      if (current.vials[index].length > 0) setSelectedVial(index);
+      return;
+    }
+
+    if (selectedVial === index) {
+      setSelectedVial(null);
+      return;
+    }
+
+    const poured = pour(current.vials, capacities, selectedVial, index);
+    setSelectedVial(null);
+    if (!poured) {
+      setMessage(`Can't pour from Vial ${selectedVial + 1} into Vial ${index + 1}`);
+      return;
+    }
+
+    // Still on the shortest line if this was its next move
+    const onLine = nextMove !== null && nextMove.from === poured.move.from && nextMove.to === poured.move.to;
+    const step: PlayStep = {
+      vials: poured.vials,
+      move: poured.move,
+      line: onLine ? current.line!.slice(1) : null
+    };
+    setSteps([...steps, step]);
+
+    if (!onLine) {
+      resolveFrom(poured.vials, steps.length);
+    }
+  };
+
+  const handleUndo = () => {
+    if (steps.length <= 1) return;
+    const previous = steps.slice(0, -1);
+    setSteps(previous);
+    setSelectedVial(null);
+    setMessage(null);
+
+    // Drop a re-solve for the undone move, or finish one the previous step still needs
+    solveIdRef.current++;
+    setIsSolving(false);
+    const last = previous[previous.length - 1];
+    if (!last.line) resolveFrom(last.vials, previous.length - 1);
+  };
+
+  return (
+    <div>
+      {/* Progress against the shortest solution */}
+      <div className={`mb-6 p-4 rounded-lg border ${
+        extraMoves ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'
+      }`}>
+        <div className="font-medium">
+          {isSolved
+            ? `Solved in ${movesMade} moves`
+            : `${movesMade} moves made`}
+          {extraMoves !== null && (
+            extraMoves === 0
+              ? ' · on an optimal line'
+              : ` · ${extraMoves} extra move${extraMoves === 1 ? '' : 's'} over the best solution`
+          )}
+        </div>
+        <div className="text-sm text-gray-600 mt-1" aria-live="polite">
+          {isSolving
+            ? 'You left the optimal line. Finding the best way on from here...'
+            : nextMove
+              ? <>
+                  Next optimal move: pour {nextMove.units} {nextMove.color}
+                  <ColorSwatch color={nextMove.color} className="mx-1 w-3 h-3" />
+                  from Vial {nextMove.from + 1} to Vial {nextMove.to + 1}
+                </>
+              : !isSolved && 'Click a vial to pick it up, then click where to pour.'}
+        </div>
+        {message && <div className="text-sm text-red-600 mt-1">{message}</div>}
+      </div>
+
+      {/* Vials to play on */}
+      <div className="mb-6 grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+        {current.vials.map((vial, index) => (
+          <div key={index} className="flex flex-col items-center">
+            <VialVisualizer
+              vial={vial}
+              capacity={capacities[index]}
+              label={`Vial ${index + 1}`}
+              interactive={!isSolved}
+              onLayerClick={() => handleVialClick(index)}
+              highlight={index === selectedVial}
+            />
+            <div className="mt-2 text-center text-gray-700 font-medium">
+              Vial {index + 1}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2 border-t border-gray-200 pt-4">
+        <button
+          onClick={handleUndo}
+          disabled={steps.length <= 1}
+          className={`px-4 py-2 border rounded-md text-sm font-medium transition-colors ${
+            steps.length <= 1 ? 'text-gray-400 cursor-not-allowed' : 'bg-gray-50 hover:bg-gray-100'
+          }`}
+        >
+          Undo
+        </button>
+        <button
+          onClick={onExit}
+          className="px-4 py-2 border rounded-md text-sm font-medium transition-colors bg-gray-50 hover:bg-gray-100"
+        >
+          Back to Replay
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlayMode;
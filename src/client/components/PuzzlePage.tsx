@@ -0,0 +1,62 @@
+import { encodePuzzle } from '@/utils/notation';
+import { getRouteApi, Link, type ErrorComponentProps } from '@tanstack/react-router';
+import React from 'react';
+import SolutionViewer from './SolutionViewer';
+
+const routeApi = getRouteApi('/puzzle/$id');
+
+/**
+ * Permalink view of a stored puzzle and its solution
+ */
+const PuzzlePage: React.FC = () => {
+  const puzzle = routeApi.useLoaderData();
+  const notation = encodePuzzle(puzzle.gameState);
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <section className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">Puzzle {puzzle.id}</h2>
+            <p className="text-sm text-gray-500">
+              Saved {new Date(puzzle.created).toLocaleString()}
+            </p>
+          </div>
+          {notation !== null && (
+            <Link
+              to="/"
+              search={{ p: notation }}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors text-sm"
+            >
+              Open in Editor
+            </Link>
+          )}
+        </div>
+
+        {puzzle.solution ? (
+          <SolutionViewer
+            gameState={puzzle.gameState}
+            solution={puzzle.solution}
+            isLoading={false}
+          />
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <p>This puzzle was saved without a solution. Open it in the editor to solve it.</p>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+/**
+ * Shown when a stored puzzle can't be loaded
+ */
+export const PuzzleLoadError: React.FC<ErrorComponentProps> = ({ error }) => (
+  <div className="max-w-3xl mx-auto bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+    <p>{error.message}</p>
+    <Link to="/" className="text-blue-600 hover:underline">Back to the solver</Link>
+  </div>
+);
+
+export default PuzzlePage;
@@ -1,35 +1,98 @@
-import type { GameState, MoveWithColor, SolverResult, Vial } from '@/types';
-import { getColorHex } from '@/utils';
+import { useColorblindMode } from '@/client/hooks/useColorblindMode';
+import type {
+  GameState,
+  MoveWithColor,
+  SearchEndReason,
+  SolverProgress,
+  SolverResult,
+  SolverStats,
+  Vial
+} from '@/types';
+import {
+  getAvailableColors,
+  getColorGlyph,
+  getColorHex,
+  getContrastColor,
+  getVialCapacities,
+  UNKNOWN_COLOR
+} from '@/utils';
 import React, { useEffect, useState } from 'react';
+import ColorSwatch from './ColorSwatch';
+import PlayMode from './PlayMode';
 import VialVisualizer from './VialVisualizer';
 
 interface SolutionViewerProps {
   gameState: GameState | null;
   solution: SolverResult | null;
   isLoading: boolean;
+  progress?: SolverProgress | null;
+  onCancel?: () => void;
+  onReveal?: (revealedState: GameState) => void;
+  // Solves from a position reached in play mode; play mode is off without it
+  onSolveFrom?: (state: GameState) => Promise<SolverResult>;
 }
 
+const END_REASON_LABELS: Record<SearchEndReason, string> = {
+  'solved': 'Solved',
+  'already-solved': 'Already solved',
+  'revealed': 'Hidden layer uncovered',
+  'move-budget': 'Best progress within the move budget',
+  'exhausted': 'Proven unsolvable',
+  'state-limit': 'Gave up at the state limit'
+};
+
+/**
+ * One-line summary of how much searching the solver did
+ */
+const StatsSummary: React.FC<{ stats: SolverStats }> = ({ stats }) => (
+  <div className="text-sm text-gray-500">
+    <span className="font-medium">{END_REASON_LABELS[stats.endReason]}</span>
+    {' · '}{stats.statesExplored.toLocaleString()} states explored
+    {' · '}{stats.visitedStates.toLocaleString()} visited
+    {' · '}peak queue {stats.peakQueueSize.toLocaleString()}
+    {' · '}{stats.deadEnds.toLocaleString()} dead ends
+    {' · '}{stats.elapsedMs.toLocaleString()} ms
+  </div>
+);
+
 const SolutionViewer: React.FC<SolutionViewerProps> = ({ 
   gameState, 
   solution, 
-  isLoading 
+  isLoading,
+  progress,
+  onCancel,
+  onReveal,
+  onSolveFrom
 }) => {
   const [currentStep, setCurrentStep] = useState<number>(0);
   const [vialStates, setVialStates] = useState<Vial[][]>([]);
   const [isAnimating, setIsAnimating] = useState<boolean>(false);
   const [animationSpeed, setAnimationSpeed] = useState<number>(1000); // ms between steps
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [selectedSolution, setSelectedSolution] = useState<number>(0);
+  const [colorblindMode] = useColorblindMode();
+
+  // The solver's solution followed by any alternatives it found
+  const solutions = solution ? [solution.moves, ...(solution.alternatives ?? [])] : [];
+  const moves = solutions[selectedSolution] ?? [];
 
-  // Reset when game state or solution changes
+  // Show the solver's own solution first whenever a new one comes in
+  useEffect(() => {
+    setSelectedSolution(0);
+  }, [solution]);
+
+  // Reset when game state or the solution shown changes
   useEffect(() => {
     setCurrentStep(0);
     setIsAnimating(false);
+    setIsPlaying(false);
     
     if (gameState && solution?.success) {
-      generateVialStates(gameState.vials, solution.moves);
+      generateVialStates(gameState.vials, solutions[selectedSolution] ?? solution.moves);
     } else {
       setVialStates([]);
     }
-  }, [gameState, solution]);
+  }, [gameState, solution, selectedSolution]);
 
   // Generate all intermediate vial states
   const generateVialStates = (initialVials: Vial[], moves: MoveWithColor[]) => {
@@ -99,6 +162,11 @@ const SolutionViewer: React.FC<SolutionViewerProps> = ({
     setIsAnimating(false);
   };
 
+  const handlePlay = () => {
+    setIsAnimating(false);
+    setIsPlaying(true);
+  };
+
   if (!gameState) {
     return (
       <div className="text-center py-12 text-gray-500">
@@ -112,6 +180,21 @@ const SolutionViewer: React.FC<SolutionViewerProps> = ({
       <div className="text-center py-12">
         <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600 mb-2"></div>
         <p className="text-gray-600">Finding solution...</p>
+        {progress && (
+          <p className="text-sm text-gray-500 mt-2">
+            {progress.statesExplored.toLocaleString()} states explored
+            {' · '}depth {progress.depth}
+            {' · '}at best {progress.bestEstimate} moves from solved
+          </p>
+        )}
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-4 px-4 py-2 border rounded-md text-sm font-medium transition-colors bg-gray-50 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     );
   }
@@ -132,13 +215,32 @@ const SolutionViewer: React.FC<SolutionViewerProps> = ({
         </svg>
         <p className="text-red-600 font-medium">{solution.message || 'No solution found'}</p>
         <p className="text-gray-500 mt-2">Try adjusting the puzzle state and solve again</p>
+        {solution.stats && (
+          <div className="mt-4">
+            <StatsSummary stats={solution.stats} />
+          </div>
+        )}
       </div>
     );
   }
 
   // Show the solution
   const currentVials = vialStates[currentStep];
-  const currentMove = currentStep > 0 ? solution.moves[currentStep - 1] : null;
+  const capacities = getVialCapacities(gameState);
+  const currentMove = currentStep > 0 ? moves[currentStep - 1] : null;
+  const reveal = solution.reveal;
+
+  // Playing needs a complete shortest solution to measure against
+  const canPlay = !!onSolveFrom && !reveal && (!solution.budget || solution.budget.finished);
+
+  // Fill in the uncovered layer and hand the new state back for re-solving
+  const handleRevealColor = (color: string) => {
+    if (!reveal || !onReveal) return;
+    const finalVials = vialStates[vialStates.length - 1].map(vial => [...vial]);
+    const revealedVial = finalVials[reveal.vial];
+    revealedVial[revealedVial.length - 1] = color;
+    onReveal({ ...gameState, vials: finalVials });
+  };
 
   return (
     <div>
@@ -149,153 +251,247 @@ const SolutionViewer: React.FC<SolutionViewerProps> = ({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
           </svg>
           <span className="text-green-700 font-medium">
-            Solution found in {solution.moves.length} moves!
+            {reveal
+              ? `${solution.moves.length} moves until a hidden layer is uncovered in Vial ${reveal.vial + 1}`
+              : solution.budget && !solution.budget.finished
+                ? `Can't finish within ${solution.budget.moveBudget} moves`
+                : `Solution found in ${solution.moves.length} moves!`
+            }
           </span>
         </div>
+        {solution.budget && !solution.budget.finished && (
+          <div className="mt-2 ml-7 text-sm text-gray-700">
+            These {solution.moves.length} moves complete {solution.budget.completedVials} vials
+            and leave {solution.budget.fragmentation} color runs to merge (score {solution.budget.score}).
+          </div>
+        )}
+        {solution.stats && (
+          <div className="mt-2 ml-7">
+            <StatsSummary stats={solution.stats} />
+          </div>
+        )}
       </div>
 
-      {/* Current move display */}
-      {currentMove && (
-        <div className="mb-6 p-4 bg-blue-50 rounded-lg">
-          <div className="font-medium mb-1">Move {currentStep} of {solution.moves.length}</div>
-          <div className="flex items-center">
-            <span>Pour</span>
-            <div 
-              className="mx-2 w-5 h-5 rounded inline-block" 
-              style={{ backgroundColor: getColorHex(currentMove.color) }}
-            ></div>
-            <span className="font-medium">{currentMove.units} {currentMove.color}</span>
-            <span className="mx-2">from Vial {currentMove.from + 1} to Vial {currentMove.to + 1}</span>
+      {/* Switch between alternative solutions */}
+      {solutions.length > 1 && (
+        <div className="mb-6">
+          <div className="font-medium mb-2">Alternative solutions</div>
+          <div className="flex flex-wrap gap-2">
+            {solutions.map((option, index) => (
+              <button
+                key={index}
+                onClick={() => setSelectedSolution(index)}
+                className={`px-3 py-1 border rounded-md text-sm transition-colors ${
+                  index === selectedSolution
+                    ? 'bg-blue-500 border-blue-500 text-white'
+                    : 'bg-gray-50 hover:bg-gray-100'
+                }`}
+              >
+                #{index + 1}: {option.length} moves, {new Set(option.map(move => move.from)).size} source vials
+              </button>
+            ))}
           </div>
+          <p className="text-sm text-gray-500 mt-2">
+            Solutions that pour from fewer vials are usually easier to follow.
+          </p>
         </div>
       )}
 
-      {/* Vials visualization */}
-      <div className="mb-6">
-        <h3 className="font-medium mb-3">
-          {currentStep === 0 
-            ? 'Initial State' 
-            : currentStep === vialStates.length - 1
-              ? 'Final State'
-              : `State After Move ${currentStep}`
-          }
-        </h3>
-        <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-          {currentVials.map((vial, index) => (
-            <div key={index} className="flex flex-col items-center">
-              <VialVisualizer 
-                vial={vial} 
-                highlight={
-                  currentMove ? (index === currentMove.from || index === currentMove.to) : undefined
-                }
-              />
-              <div className="mt-2 text-center text-gray-700 font-medium">
-                Vial {index + 1}
+      {/* Ask for the color of the uncovered layer */}
+      {reveal && onReveal && (
+        <div className="mb-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+          <div className="font-medium mb-2">
+            After these moves, which color appeared at the top of Vial {reveal.vial + 1}?
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {getAvailableColors().map(colorName => (
+              <button
+                key={colorName}
+                onClick={() => handleRevealColor(colorName)}
+                className={`w-8 h-8 rounded-full transition-all hover:scale-110 text-sm font-bold ${
+                  colorblindMode ? 'border-2 border-black' : ''
+                }`}
+                style={{ backgroundColor: getColorHex(colorName), color: getContrastColor(getColorHex(colorName)) }}
+                title={colorName}
+                aria-label={colorName}
+              >
+                <span aria-hidden="true">{colorblindMode && getColorGlyph(colorName)}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            Still-hidden layers stay marked {UNKNOWN_COLOR}; the solver plans up to the next reveal.
+          </p>
+        </div>
+      )}
+
+      {isPlaying && canPlay ? (
+        <PlayMode
+          gameState={gameState}
+          startVials={currentVials}
+          line={moves.slice(currentStep)}
+          optimalLength={solution.moves.length - currentStep}
+          onSolveFrom={onSolveFrom}
+          onExit={() => setIsPlaying(false)}
+        />
+      ) : (
+        <>
+          {/* Current move display */}
+          {currentMove && (
+            <div className="mb-6 p-4 bg-blue-50 rounded-lg" aria-live="polite">
+              <div className="font-medium mb-1">Move {currentStep} of {moves.length}</div>
+              <div className="flex items-center">
+                <span>Pour</span>
+                <ColorSwatch color={currentMove.color} className="mx-2 w-5 h-5" />
+                <span className="font-medium">{currentMove.units} {currentMove.color}</span>
+                <span className="mx-2">from Vial {currentMove.from + 1} to Vial {currentMove.to + 1}</span>
               </div>
             </div>
-          ))}
-        </div>
-      </div>
+          )}
 
-      {/* Animation controls */}
-      <div className="flex items-center justify-between border-t border-gray-200 pt-4">
-        <div className="flex items-center space-x-3">
-          <button 
-            onClick={handleStepBack}
-            disabled={currentStep === 0}
-            className={`p-2 rounded ${
-              currentStep === 0 
-                ? 'text-gray-400 cursor-not-allowed' 
-                : 'text-gray-700 hover:bg-gray-100'
-            }`}
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-            </svg>
-          </button>
+          {/* Vials visualization */}
+          <div className="mb-6">
+            <h3 className="font-medium mb-3">
+              {currentStep === 0 
+                ? 'Initial State' 
+                : currentStep === vialStates.length - 1
+                  ? 'Final State'
+                  : `State After Move ${currentStep}`
+              }
+            </h3>
+            <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+              {currentVials.map((vial, index) => (
+                <div key={index} className="flex flex-col items-center">
+                  <VialVisualizer 
+                    vial={vial} 
+                    capacity={capacities[index]}
+                    label={`Vial ${index + 1}`}
+                    highlight={
+                      currentMove ? (index === currentMove.from || index === currentMove.to) : undefined
+                    }
+                  />
+                  <div className="mt-2 text-center text-gray-700 font-medium">
+                    Vial {index + 1}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Animation controls */}
+          <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+            <div className="flex items-center space-x-3">
+              <button 
+                onClick={handleStepBack}
+                disabled={currentStep === 0}
+                className={`p-2 rounded ${
+                  currentStep === 0 
+                    ? 'text-gray-400 cursor-not-allowed' 
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
           
-          <button 
-            onClick={handlePlayPause}
-            className="p-2 rounded text-gray-700 hover:bg-gray-100"
-          >
-            {isAnimating ? (
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-            ) : (
-              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-            )}
-          </button>
+              <button 
+                onClick={handlePlayPause}
+                className="p-2 rounded text-gray-700 hover:bg-gray-100"
+              >
+                {isAnimating ? (
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                )}
+              </button>
           
-          <button 
-            onClick={handleStepForward}
-            disabled={currentStep === vialStates.length - 1}
-            className={`p-2 rounded ${
-              currentStep === vialStates.length - 1 
-                ? 'text-gray-400 cursor-not-allowed' 
-                : 'text-gray-700 hover:bg-gray-100'
-            }`}
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-            </svg>
-          </button>
+              <button 
+                onClick={handleStepForward}
+                disabled={currentStep === vialStates.length - 1}
+                className={`p-2 rounded ${
+                  currentStep === vialStates.length - 1 
+                    ? 'text-gray-400 cursor-not-allowed' 
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
           
-          <button 
-            onClick={handleReset}
-            className="p-2 rounded text-gray-700 hover:bg-gray-100 ml-2"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-          </button>
-        </div>
+              <button 
+                onClick={handleReset}
+                className="p-2 rounded text-gray-700 hover:bg-gray-100 ml-2"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            </div>
         
-        <div className="flex items-center space-x-2">
-          <span className="text-sm text-gray-500">Speed</span>
-          <input 
-            type="range" 
-            min="1" 
-            max="5" 
-            value={(2000 - animationSpeed) / 400}
-            onChange={handleSpeedChange} 
-            className="w-24"
-          />
-        </div>
-      </div>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-500">Speed</span>
+              <input 
+                type="range" 
+                min="1" 
+                max="5" 
+                value={(2000 - animationSpeed) / 400}
+                onChange={handleSpeedChange} 
+                className="w-24"
+              />
+            </div>
+          </div>
 
-      {/* Show all moves */}
-      <div className="mt-8">
-        <h3 className="font-medium mb-3">All Moves</h3>
-        <div className="space-y-2 max-h-96 overflow-y-auto pr-2">
-          {solution.moves.map((move, index) => (
-            <div 
-              key={index}
-              className={`p-3 rounded-lg border ${
-                index === currentStep - 1 
-                  ? 'bg-blue-50 border-blue-200' 
-                  : 'bg-white border-gray-200'
-              }`}
-            >
-              <div className="flex items-center">
-                <span className="bg-blue-500 text-white w-6 h-6 rounded-full flex items-center justify-center text-sm mr-3">
-                  {index + 1}
-                </span>
-                <span>Pour</span>
+          {canPlay && (
+            <div className="mt-4">
+              <button
+                onClick={handlePlay}
+                className="px-4 py-2 border rounded-md text-sm font-medium transition-colors bg-gray-50 hover:bg-gray-100"
+              >
+                Play From Here
+              </button>
+              <span className="ml-3 text-sm text-gray-500">
+                Make the moves yourself; you'll see when you leave the optimal line.
+              </span>
+            </div>
+          )}
+
+          {/* Show all moves */}
+          <div className="mt-8">
+            <h3 className="font-medium mb-3">All Moves</h3>
+            <div className="space-y-2 max-h-96 overflow-y-auto pr-2" role="list">
+              {moves.map((move, index) => (
                 <div 
-                  className="mx-2 w-4 h-4 rounded inline-block" 
-                  style={{ backgroundColor: getColorHex(move.color) }}
-                ></div>
-                <span className="font-medium">{move.units} {move.color}</span>
-                <span className="mx-2">from Vial {move.from + 1} to Vial {move.to + 1}</span>
-              </div>
+                  key={index}
+                  role="listitem"
+                  aria-label={`Move ${index + 1}: pour ${move.units} ${move.color} from vial ${move.from + 1} to vial ${move.to + 1}`}
+                  className={`p-3 rounded-lg border ${
+                    index === currentStep - 1 
+                      ? 'bg-blue-50 border-blue-200' 
+                      : 'bg-white border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <span className="bg-blue-500 text-white w-6 h-6 rounded-full flex items-center justify-center text-sm mr-3">
+                      {index + 1}
+                    </span>
+                    <span>Pour</span>
+                    <ColorSwatch color={move.color} className="mx-2 w-4 h-4" />
+                    <span className="font-medium">{move.units} {move.color}</span>
+                    <span className="mx-2">from Vial {move.from + 1} to Vial {move.to + 1}</span>
+                  </div>
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
-      </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
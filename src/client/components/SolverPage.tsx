@@ -1,33 +1,93 @@
 import { useSolver } from '@/client/hooks/useSolver';
-import { GameState } from '@/types';
-import React from 'react';
+import { GameState, ImageAnalyzer, SolverAlgorithm } from '@/types';
+import { encodePuzzle } from '@/utils/notation';
+import { getRouteApi, Link } from '@tanstack/react-router';
+import React, { useEffect, useRef, useState } from 'react';
+import DifficultyBadge from './DifficultyBadge';
 import GameStateEditor from './GameStateEditor';
 import ImageUploader from './ImageUploader';
 import SolutionViewer from './SolutionViewer';
 
+const routeApi = getRouteApi('/');
+
 const SolverPage: React.FC = () => {
+  const { p: sharedNotation } = routeApi.useSearch();
   const { 
     gameState, 
     solution, 
     isLoading, 
+    isSolving,
     error, 
+    notice,
+    progress,
+    analysis,
+    savedPuzzleId,
+    canSave,
     solvePuzzle, 
+    cancelSolve,
+    solveFrom,
+    applyHint,
+    generatePuzzle,
     analyzeImage, 
+    savePuzzle,
+    loadNotation,
     isStrictMode,
+    algorithm,
+    moveBudget,
+    alternatives,
+    mode,
+    analyzer,
     updateGameState,
     toggleStrictMode,
+    toggleMode,
+    setAlgorithm,
+    setMoveBudget,
+    setAlternatives,
+    setAnalyzer,
     reset
-  } = useSolver({strictMode: true});
+  } = useSolver({strictMode: true, algorithm: 'astar', mode: 'remote'});
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  const loadedNotationRef = useRef<string | null>(null);
+
+  // Open and solve a puzzle shared in the URL
+  useEffect(() => {
+    if (!sharedNotation || loadedNotationRef.current === sharedNotation) return;
+    loadedNotationRef.current = sharedNotation;
+
+    const sharedState = loadNotation(sharedNotation);
+    if (sharedState) solvePuzzle(sharedState);
+  }, [sharedNotation]);
+
+  useEffect(() => {
+    setLinkCopied(false);
+  }, [gameState]);
+
+  const notation = gameState ? encodePuzzle(gameState) : null;
 
   const handleImageAnalysis = async (imageBase64: string, fileType: string) => {
     await analyzeImage(imageBase64, fileType);
   };
 
+  const handleAnalyzerChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAnalyzer(e.target.value ? e.target.value as ImageAnalyzer : null);
+  };
+
   const handleSolve = async () => {
     if (!gameState) return;
     await solvePuzzle(gameState);
   };
 
+  const handleHint = async () => {
+    if (!gameState) return;
+    await applyHint(gameState);
+  };
+
+  const handleReveal = async (revealedState: GameState) => {
+    updateGameState(revealedState);
+    await solvePuzzle(revealedState);
+  };
+
   const handleGameStateChange = (newState: GameState) => {
     updateGameState(newState);
   };
@@ -37,12 +97,50 @@ const SolverPage: React.FC = () => {
     reset();
   };
 
+  const handleAlgorithmChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAlgorithm(e.target.value as SolverAlgorithm);
+  };
+
+  const handleAlternativesChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAlternatives(parseInt(e.target.value));
+  };
+
+  const handleCopyLink = async () => {
+    if (notation === null) return;
+    const url = new URL('/', window.location.href);
+    url.searchParams.set('p', notation);
+    await navigator.clipboard.writeText(url.toString());
+    setLinkCopied(true);
+  };
+
+  const handleMoveBudgetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const budget = parseInt(e.target.value);
+    setMoveBudget(isNaN(budget) || budget < 0 ? undefined : budget);
+  };
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div>
           <section className="bg-white rounded-lg shadow-md p-6 mb-8">
             <h2 className="text-xl font-bold mb-4">Upload Puzzle Image</h2>
+            <div className="mb-4">
+              <label className="flex items-center text-gray-700">
+                <span className="mr-2">Read screenshots with</span>
+                <select
+                  value={analyzer ?? ''}
+                  onChange={handleAnalyzerChange}
+                  className="px-2 py-1 border rounded-md"
+                >
+                  <option value="">Server default</option>
+                  <option value="claude">Claude</option>
+                  <option value="local">Pixel matching (offline)</option>
+                </select>
+              </label>
+              <p className="text-gray-500 text-sm mt-1">
+                Pixel matching runs in your browser and expects sudoku.com's layout; set the vial capacity in the editor first if it isn't 4.
+              </p>
+            </div>
             <ImageUploader onImageUpload={handleImageAnalysis} isLoading={isLoading} />
           </section>
 
@@ -64,12 +162,85 @@ const SolverPage: React.FC = () => {
                 When enabled, the solver will continue until each color appears in exactly one vial and is filled to capacity.
               </p>
             </div>
+
+            <div className="mb-4">
+              <label className="flex items-center text-gray-700">
+                <span className="mr-2">Search algorithm</span>
+                <select
+                  value={algorithm}
+                  onChange={handleAlgorithmChange}
+                  className="px-2 py-1 border rounded-md"
+                >
+                  <option value="astar">A* (faster)</option>
+                  <option value="bfs">Breadth-first search</option>
+                </select>
+              </label>
+              <p className="text-gray-500 text-sm mt-1">
+                Both find a shortest solution. A* explores far fewer states on large puzzles.
+              </p>
+            </div>
+
+            <div className="mb-4">
+              <label className="flex items-center text-gray-700">
+                <span className="mr-2">Move budget</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={moveBudget ?? ''}
+                  onChange={handleMoveBudgetChange}
+                  placeholder="Unlimited"
+                  className="w-28 px-2 py-1 border rounded-md"
+                />
+              </label>
+              <p className="text-gray-500 text-sm mt-1">
+                Moves you have banked. If the puzzle can't be finished within them, you'll get the moves that make the most progress.
+              </p>
+            </div>
+
+            <div className="mb-4">
+              <label className="flex items-center text-gray-700">
+                <span className="mr-2">Alternative solutions</span>
+                <select
+                  value={alternatives}
+                  onChange={handleAlternativesChange}
+                  className="px-2 py-1 border rounded-md"
+                >
+                  {[0, 1, 3, 5, 10].map(count => (
+                    <option key={count} value={count}>{count === 0 ? 'None' : count}</option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-gray-500 text-sm mt-1">
+                Other ways to solve the puzzle in as few moves, or one more, so you can pick the easiest to follow. Looking for them makes solving slower.
+              </p>
+            </div>
+
+            <div className="mb-4">
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mode === 'local'}
+                  onChange={toggleMode}
+                  className="form-checkbox h-5 w-5 text-blue-600"
+                />
+                <span className="ml-2 text-gray-700">
+                  Solve in this browser
+                </span>
+              </label>
+              <p className="text-gray-500 text-sm mt-1 ml-7">
+                Works offline and avoids server time limits. The browser is also used automatically when the API can't be reached.
+              </p>
+            </div>
             
             <GameStateEditor 
               gameState={gameState} 
               onChange={handleGameStateChange} 
               onSolve={handleSolve}
+              onHint={handleHint}
+              onGenerate={generatePuzzle}
               isLoading={isLoading}
+              strictMode={isStrictMode}
+              analysis={analysis}
             />
             
             {error && (
@@ -77,16 +248,61 @@ const SolverPage: React.FC = () => {
                 <p>{error}</p>
               </div>
             )}
+
+            {notice && (
+              <div className="mt-4 bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded">
+                <p>{notice}</p>
+              </div>
+            )}
           </section>
         </div>
 
         <div>
           <section className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-bold mb-4">Solution</h2>
+            <div className="flex justify-between items-center mb-4">
+              <div className="flex items-center gap-2">
+                <h2 className="text-xl font-bold">Solution</h2>
+                {solution?.difficulty && !isLoading && (
+                  <DifficultyBadge difficulty={solution.difficulty} />
+                )}
+              </div>
+              {gameState && solution && !isLoading && (
+                <div className="flex items-center gap-2">
+                  {notation !== null && (
+                    <button
+                      onClick={handleCopyLink}
+                      className="px-3 py-1 border rounded text-sm transition-colors bg-gray-50 hover:bg-gray-100"
+                    >
+                      {linkCopied ? 'Link Copied' : 'Copy Link'}
+                    </button>
+                  )}
+                  {canSave && (savedPuzzleId ? (
+                    <Link
+                      to="/puzzle/$id"
+                      params={{ id: savedPuzzleId }}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      Saved as {savedPuzzleId}
+                    </Link>
+                  ) : (
+                    <button
+                      onClick={savePuzzle}
+                      className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors text-sm"
+                    >
+                      Save Puzzle
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <SolutionViewer 
               gameState={gameState} 
               solution={solution}
               isLoading={isLoading}
+              progress={progress}
+              onCancel={isSolving ? cancelSolve : undefined}
+              onReveal={handleReveal}
+              onSolveFrom={solveFrom}
             />
           </section>
         </div>
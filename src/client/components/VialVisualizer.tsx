@@ -1,5 +1,12 @@
+import { useColorblindMode } from '@/client/hooks/useColorblindMode';
 import type { Vial } from '@/types';
-import { getColorHex } from '@/utils';
+import {
+  DEFAULT_VIAL_CAPACITY,
+  getColorGlyph,
+  getColorHex,
+  getContrastColor,
+  UNKNOWN_COLOR
+} from '@/utils';
 import React from 'react';
 
 interface VialVisualizerProps {
@@ -7,19 +14,30 @@ interface VialVisualizerProps {
   onLayerClick?: (position: number) => void;
   interactive?: boolean;
   highlight?: boolean | null;
+  capacity?: number;
+  // Per layer: why it should be checked, or null when it looks fine
+  layerWarnings?: (string | null)[];
+  // Name read out by screen readers, e.g. "Vial 3"
+  label?: string;
 }
 
-const MAX_VIAL_CAPACITY = 4;
-
-const VialVisualizer: React.FC<VialVisualizerProps> = ({ 
-  vial, 
-  onLayerClick, 
+const VialVisualizer: React.FC<VialVisualizerProps> = ({
+  vial,
+  onLayerClick,
   interactive = false,
-  highlight = false
+  highlight = false,
+  capacity = DEFAULT_VIAL_CAPACITY,
+  layerWarnings,
+  label = 'Vial'
 }) => {
+  const [colorblindMode] = useColorblindMode();
+
   // Calculate empty layers
-  const emptyCount = MAX_VIAL_CAPACITY - vial.length;
-  
+  const emptyCount = Math.max(capacity - vial.length, 0);
+
+  // Split the vial height evenly between its layers
+  const layerHeight = `${100 / Math.max(capacity, vial.length)}%`;
+
   // Handle click on a layer
   const handleLayerClick = (position: number) => {
     if (interactive && onLayerClick) {
@@ -27,31 +45,66 @@ const VialVisualizer: React.FC<VialVisualizerProps> = ({
     }
   };
 
+  // Let keyboard users pick layers too
+  const handleLayerKeyDown = (event: React.KeyboardEvent, position: number) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      handleLayerClick(position);
+    }
+  };
+
+  // Interactive layers act as buttons
+  const layerProps = (position: number, description: string) => ({
+    role: interactive ? 'button' : 'listitem',
+    tabIndex: interactive ? 0 : undefined,
+    'aria-label': `Layer ${position + 1}: ${description}`,
+    onClick: () => handleLayerClick(position),
+    onKeyDown: interactive ? (event: React.KeyboardEvent) => handleLayerKeyDown(event, position) : undefined
+  });
+
   return (
-    <div 
-      className={`vial relative flex flex-col-reverse ${highlight ? 'ring-2 ring-blue-400 ring-offset-2' : ''}`}
+    <div
+      className={`vial relative flex flex-col-reverse ${highlight ? 'ring-2 ring-blue-400 ring-offset-2' : ''} ${
+        colorblindMode ? 'border-black' : ''
+      }`}
       style={{ cursor: interactive ? 'pointer' : 'default' }}
+      role={interactive ? 'group' : 'list'}
+      aria-label={`${label}: ${vial.length} of ${capacity} layers filled${highlight ? ', highlighted' : ''}`}
     >
       {/* Color layers at the bottom */}
       {vial.map((color, index) => (
-        <div 
+        <div
           key={`color-${index}`}
-          className="color-layer"
-          style={{ backgroundColor: getColorHex(color) }}
-          onClick={() => handleLayerClick(index)}
-        />
+          className={`color-layer flex items-center justify-center font-bold ${
+            layerWarnings?.[index] ? 'outline-2 outline-dashed outline-amber-500 -outline-offset-4' : ''
+          } ${colorblindMode ? 'border-t-2 border-black' : ''}`}
+          style={{
+            backgroundColor: getColorHex(color),
+            color: getContrastColor(getColorHex(color)),
+            height: layerHeight
+          }}
+          title={layerWarnings?.[index] ?? undefined}
+          {...layerProps(index, color === UNKNOWN_COLOR
+            ? 'hidden'
+            : `${color}${layerWarnings?.[index] ? `, check: ${layerWarnings[index]}` : ''}`)}
+        >
+          <span aria-hidden="true">
+            {colorblindMode || color === UNKNOWN_COLOR ? getColorGlyph(color) : null}
+          </span>
+        </div>
       ))}
 
       {/* Empty layers on top */}
       {Array.from({ length: emptyCount }).map((_, index) => (
-        <div 
-          key={`empty-${index}`} 
+        <div
+          key={`empty-${index}`}
           className="empty-layer border-t border-gray-200"
-          onClick={() => handleLayerClick(vial.length + index)}
+          style={{ height: layerHeight }}
+          {...layerProps(vial.length + index, 'empty')}
         />
       ))}
     </div>
   );
 };
 
-export default VialVisualizer;
\ No newline at end of file
+export default VialVisualizer;
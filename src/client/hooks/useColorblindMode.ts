@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react';
+
+const STORAGE_KEY = 'water-sort:colorblind-mode';
+
+// Components to re-render when the mode changes in this tab
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Changes made in other tabs
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function isEnabled() {
+  return localStorage.getItem(STORAGE_KEY) === 'on';
+}
+
+/**
+ * Whether layers carry a glyph per color and high-contrast outlines, so
+ * colors can be told apart without relying on hue. Remembered across visits
+ * and shared by every component that uses it.
+ */
+export function useColorblindMode(): [boolean, (enabled: boolean) => void] {
+  const enabled = useSyncExternalStore(subscribe, isEnabled, () => false);
+
+  const setEnabled = (value: boolean) => {
+    localStorage.setItem(STORAGE_KEY, value ? 'on' : 'off');
+    listeners.forEach(listener => listener());
+  };
+
+  return [enabled, setEnabled];
+}
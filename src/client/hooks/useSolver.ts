@@ -1,42 +1,255 @@
-import type { ClaudeAnalysisResult, GameState, SolverResult } from '@/types';
-import { useState } from 'react';
+import { API_URL, fetchStorageAvailable } from '@/client/utils/api';
+import { loadImageData } from '@/client/utils/imageData';
+import { readServerSentEvents } from '@/client/utils/sse';
+import type { SolverWorkerRequest, SolverWorkerResponse } from '@/client/workers/solver.worker';
+import type {
+  ClaudeAnalysisResult,
+  CloudData,
+  GameState,
+  GeneratedPuzzle,
+  GeneratorOptions,
+  HintResult,
+  ImageAnalyzer,
+  SolverAlgorithm,
+  SolverOptions,
+  SolverProgress,
+  SolverResult
+} from '@/types';
+import { getVialCapacities } from '@/utils';
+import { sha256Hex } from '@/utils/hash';
+import { analyzePixels } from '@/utils/imageAnalysis';
+import { pour } from '@/utils/moves';
+import { decodePuzzle } from '@/utils/notation';
+import { replayMoves } from '@/utils/replay';
+import { useEffect, useRef, useState } from 'react';
+
+// Where puzzles are solved: in a browser worker or by the API
+export type SolveMode = 'local' | 'remote';
+
+const CANCELLED_RESULT: SolverResult = {
+  success: false,
+  moves: [],
+  message: 'Solve cancelled'
+};
+
+/**
+ * Read a failed response from the solve endpoints. Invalid puzzles come back
+ * as failed results with their issues; anything else, such as a request the
+ * API rejected, is thrown with the error it reported.
+ * @throws Error describing the response when it isn't a solver result
+ */
+async function readFailedSolve(response: Response): Promise<SolverResult> {
+  const body = await response.json().catch(() => ({})) as Partial<SolverResult> & {
+    error?: string | { issues?: { path: (string | number)[], message: string }[] }
+  };
+  if (Array.isArray(body.moves)) return body as SolverResult;
+
+  // Request validation errors list what was wrong with each field
+  const issues = typeof body.error === 'object' ? body.error.issues ?? [] : [];
+  if (issues.length > 0) {
+    throw new Error(`Invalid request: ${issues.map(issue =>
+      (issue.path.length > 0 ? `${issue.path.join('.')}: ` : '') + issue.message
+    ).join('; ')}`);
+  }
+  throw new Error(typeof body.error === 'string' ? body.error : `The solver API failed (${response.status})`);
+}
 
 /**
  * Hook for working with the Water Sort Puzzle solver API
  */
-export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
+export function useSolver({
+  strictMode = true,
+  algorithm: initialAlgorithm = 'astar',
+  mode: initialMode = 'remote'
+}: {strictMode?: boolean, algorithm?: SolverAlgorithm, mode?: SolveMode} = {}) {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [solution, setSolution] = useState<SolverResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isSolving, setIsSolving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [isStrictMode, setIsStrictMode] = useState(strictMode);
+  const [algorithm, setAlgorithm] = useState<SolverAlgorithm>(initialAlgorithm);
+  const [moveBudget, setMoveBudget] = useState<number | undefined>(undefined);
+  const [alternatives, setAlternatives] = useState(0);
+  const [mode, setMode] = useState<SolveMode>(initialMode);
+  // Null leaves the choice to the server's VISION_PROVIDER binding
+  const [analyzer, setAnalyzer] = useState<ImageAnalyzer | null>(null);
+  const [progress, setProgress] = useState<SolverProgress | null>(null);
+  const [imageHash, setImageHash] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<ClaudeAnalysisResult | null>(null);
+  const [savedPuzzleId, setSavedPuzzleId] = useState<string | null>(null);
+  // Saving needs puzzle storage, which not every deployment has
+  const [canSave, setCanSave] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    fetchStorageAvailable().then(available => {
+      if (active) setCanSave(available);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
 
-  const apiUrl = import.meta.env.VITE_API_URL || '/api';
+  // Cancels the solve in flight, if any
+  const cancelRef = useRef<(() => void) | null>(null);
 
   const toggleStrictMode = () => {
     setIsStrictMode(!isStrictMode);
   };
 
+  const toggleMode = () => {
+    setMode(mode === 'local' ? 'remote' : 'local');
+  };
+
   /**
-   * Solve a puzzle based on the game state
+   * Solve in a Web Worker, reporting progress as it goes
    */
-  const solvePuzzle = async (state: GameState) => {
-    setIsLoading(true);
-    setError(null);
-    
+  const solveLocally = (state: GameState, options: SolverOptions) => {
+    return new Promise<SolverResult>((resolve) => {
+      const worker = new Worker(
+        new URL('../workers/solver.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+
+      const finish = (result: SolverResult) => {
+        worker.terminate();
+        cancelRef.current = null;
+        resolve(result);
+      };
+
+      cancelRef.current = () => finish(CANCELLED_RESULT);
+
+      worker.onmessage = (event: MessageEvent<SolverWorkerResponse>) => {
+        if (event.data.type === 'progress') {
+          setProgress(event.data.progress);
+        } else {
+          finish(event.data.result);
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish({
+          success: false,
+          moves: [],
+          message: event.message || 'Solver worker failed'
+        });
+      };
+
+      const request: SolverWorkerRequest = { gameState: state, options };
+      worker.postMessage(request);
+    });
+  };
+
+  /**
+   * Solve with the streaming API, falling back to the worker when it can't be reached
+   */
+  const solveRemotely = async (state: GameState, options: SolverOptions) => {
+    const controller = new AbortController();
+    cancelRef.current = () => controller.abort();
+
+    let response: Response;
     try {
-      const response = await fetch(`${apiUrl}/solve`, {
+      response = await fetch(`${API_URL}/solve/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
           gameState: state,
-          strictMode: isStrictMode
+          ...options
         }),
+        signal: controller.signal
       });
-      
-      const result = await response.json() as SolverResult;
+    } catch {
+      cancelRef.current = null;
+      if (controller.signal.aborted) return CANCELLED_RESULT;
+
+      // Network failure: offline or the API is down
+      setNotice('The solver API is unreachable, so the puzzle was solved in your browser.');
+      return solveLocally(state, options);
+    }
+
+    // Gateway errors mean the API itself is unavailable
+    if (response.status >= 502 && response.status <= 504) {
+      cancelRef.current = null;
+      setNotice('The solver API is unavailable, so the puzzle was solved in your browser.');
+      return solveLocally(state, options);
+    }
+
+    // Requests rejected before solving come back as plain JSON
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      cancelRef.current = null;
+      return response.ok ? await response.json() as SolverResult : readFailedSolve(response);
+    }
+
+    let result: SolverResult | null = null;
+    try {
+      await readServerSentEvents(response, ({ event, data }) => {
+        if (event === 'progress') {
+          setProgress(JSON.parse(data) as SolverProgress);
+        } else if (event === 'result') {
+          result = JSON.parse(data) as SolverResult;
+        }
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return CANCELLED_RESULT;
+      throw err;
+    } finally {
+      cancelRef.current = null;
+    }
+
+    if (!result) {
+      throw new Error('The solver stream ended without a result');
+    }
+    return result;
+  };
+
+  /**
+   * Replay a solution before showing it, so a bad answer from the API is
+   * caught instead of animated
+   * @returns Why the solution doesn't hold up, or null when it does
+   */
+  const checkSolution = (state: GameState, result: SolverResult): string | null => {
+    if (!result.success) return null;
+
+    const replay = replayMoves(state, result.moves);
+    if (!replay.valid) return replay.illegalMove!.message;
+
+    // Partial solutions only lead up to a reveal or as far as the budget allows
+    if (result.reveal || result.budget) return null;
+    const solved = isStrictMode ? replay.solved.strict : replay.solved.lenient;
+    return solved ? null : `The moves leave the puzzle unsolved${isStrictMode ? ' in strict mode' : ''}`;
+  };
+
+  /**
+   * Solve a puzzle based on the game state
+   */
+  const solvePuzzle = async (state: GameState) => {
+    setIsLoading(true);
+    setIsSolving(true);
+    setError(null);
+    setNotice(null);
+    setProgress(null);
+    setSavedPuzzleId(null);
+
+    const options: SolverOptions = {
+      strictMode: isStrictMode,
+      algorithm,
+      moveBudget,
+      alternatives
+    };
+    
+    try {
+      const result = mode === 'local'
+        ? await solveLocally(state, options)
+        : await solveRemotely(state, options);
+
+      const problem = checkSolution(state, result);
+      if (problem) {
+        throw new Error(`The solver's answer failed verification: ${problem}`);
+      }
       setSolution(result);
       
       if (!result.success) {
@@ -56,30 +269,182 @@ export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
       };
     } finally {
       setIsLoading(false);
+      setIsSolving(false);
+      setProgress(null);
     }
   };
 
   /**
-   * Analyze an image using Claude
+   * Find a shortest solution from a position reached while playing,
+   * without replacing the puzzle or its solution
    */
-  const analyzeImage = async (imageBase64: string, fileType: string) => {
+  const solveFrom = async (state: GameState): Promise<SolverResult> => {
+    const options: SolverOptions = { strictMode: isStrictMode, algorithm: 'astar' };
+    if (mode === 'local') return solveLocally(state, options);
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_URL}/solve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gameState: state, ...options }),
+      });
+    } catch {
+      // Keep playing offline
+      return solveLocally(state, options);
+    }
+
+    if (response.status >= 502 && response.status <= 504) {
+      return solveLocally(state, options);
+    }
+    return response.ok ? await response.json() as SolverResult : readFailedSolve(response);
+  };
+
+  /**
+   * Ask the API for the next optimal move and apply it
+   */
+  const applyHint = async (state: GameState) => {
     setIsLoading(true);
     setError(null);
+    setNotice(null);
+
     try {
-      const response = await fetch(`${apiUrl}/analyze-image`, {
+      const response = await fetch(`${API_URL}/hint`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ imageBase64, fileType }),
+        body: JSON.stringify({ gameState: state, strictMode: isStrictMode }),
       });
-      const result = await response.json() as ClaudeAnalysisResult;
+      const hint = await response.json() as HintResult;
+
+      if (!hint.success) {
+        setError(hint.message || 'Could not find a hint');
+        return hint;
+      }
+
+      if (!hint.move) {
+        setNotice(hint.message || 'The puzzle is already solved');
+        return hint;
+      }
+
+      const { from, to, color } = hint.move;
+      const poured = pour(state.vials, getVialCapacities(state), from, to);
+      if (!poured) {
+        throw new Error(`The hinted move from vial ${from + 1} to vial ${to + 1} isn't allowed`);
+      }
+
+      // Moves left after this one
+      const remaining = hint.remainingMoves! - 1;
+      const goal = hint.reveal ? 'a hidden layer is revealed' : 'the puzzle is solved';
+      updateGameState({ ...state, vials: poured.vials });
+      setNotice(
+        `Poured ${color} from vial ${from + 1} into vial ${to + 1}. ` +
+        (remaining === 0 ? `Now ${goal}.` : `${remaining} more move${remaining === 1 ? '' : 's'} until ${goal}.`)
+      );
+      return hint;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error finding a hint';
+      setError(message);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Replace the puzzle with a random one the API has checked is solvable
+   */
+  const generatePuzzle = async (options: GeneratorOptions) => {
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`${API_URL}/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...options, strictMode: isStrictMode }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({})) as { error?: string };
+        throw new Error(body.error || 'Failed to generate a puzzle');
+      }
+
+      const generated = await response.json() as GeneratedPuzzle;
+      updateGameState(generated.gameState);
+      setImageHash(null);
+      setAnalysis(null);
+      setNotice(`Random puzzle from seed ${generated.seed}. Enter the seed again to get the same puzzle.`);
+      return generated;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error generating puzzle';
+      setError(message);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Stop the solve in flight
+   */
+  const cancelSolve = () => {
+    cancelRef.current?.();
+  };
+
+  /**
+   * Read a screenshot from its pixels, in the browser
+   */
+  const analyzeLocally = async (imageBase64: string, fileType: string) => {
+    const image = await loadImageData(imageBase64, fileType);
+    return analyzePixels(image, { capacity: gameState?.capacity });
+  };
+
+  /**
+   * Analyze an image with the server's provider, or locally when chosen or the server fails
+   */
+  const analyzeImage = async (imageBase64: string, fileType: string) => {
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setImageHash(await sha256Hex(imageBase64));
+
+      let result: ClaudeAnalysisResult;
+      if (analyzer === 'local') {
+        result = await analyzeLocally(imageBase64, fileType);
+      } else {
+        const response = await fetch(`${API_URL}/analyze-image`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ imageBase64, fileType, analyzer: analyzer ?? undefined }),
+        });
+        result = await response.json() as ClaudeAnalysisResult;
+
+        // Missing API key, outage or unreadable answer: fall back to the pixels
+        if (!result.success) {
+          const local = await analyzeLocally(imageBase64, fileType);
+          if (local.success) {
+            setNotice(`The server couldn't read the screenshot (${result.error || 'unknown error'}), so it was read from its pixels. Check the colors before solving.`);
+            result = local;
+          }
+        }
+      }
       
       if (!result.success) {
         setError(result.error || 'Failed to analyze image');
         return null;
       }
       
+      setAnalysis(result);
       setGameState(result.gameState!);
       return result.gameState;
     } catch (err) {
@@ -91,6 +456,58 @@ export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
     }
   };
 
+  /**
+   * Store the current puzzle, its solution and the screenshot hash
+   */
+  const savePuzzle = async () => {
+    if (!gameState) return null;
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/puzzles`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameState,
+          solution: solution ?? undefined,
+          imageHash: imageHash ?? undefined
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({})) as { error?: string };
+        throw new Error(body.error || 'Failed to save puzzle');
+      }
+
+      const record = await response.json() as CloudData;
+      setSavedPuzzleId(record.id);
+      return record;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error saving puzzle';
+      setError(message);
+      return null;
+    }
+  };
+
+  /**
+   * Load a puzzle from compact notation, e.g. from a shared link
+   */
+  const loadNotation = (notation: string) => {
+    try {
+      const state = decodePuzzle(notation);
+      updateGameState(state);
+      setAnalysis(null);
+      setError(null);
+      return state;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Invalid puzzle notation';
+      setError(message);
+      return null;
+    }
+  };
+
   /**
    * Update the game state
    */
@@ -98,6 +515,7 @@ export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
     setGameState(newState);
     // Reset solution when game state changes
     setSolution(null);
+    setSavedPuzzleId(null);
   };
 
   /**
@@ -107,6 +525,10 @@ export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
     setGameState(null);
     setSolution(null);
     setError(null);
+    setNotice(null);
+    setImageHash(null);
+    setAnalysis(null);
+    setSavedPuzzleId(null);
   };
 
   return {
@@ -114,13 +536,35 @@ export function useSolver({strictMode = true}: {strictMode?: boolean} = {}) {
     gameState,
     solution,
     isLoading,
+    isSolving,
     error,
+    notice,
     isStrictMode,
+    algorithm,
+    moveBudget,
+    alternatives,
+    mode,
+    analyzer,
+    progress,
+    analysis,
+    savedPuzzleId,
+    canSave,
     // Methods
     solvePuzzle,
+    cancelSolve,
+    solveFrom,
+    applyHint,
+    generatePuzzle,
     analyzeImage,
+    savePuzzle,
+    loadNotation,
     updateGameState,
     reset,
-    toggleStrictMode
+    toggleStrictMode,
+    toggleMode,
+    setAlgorithm,
+    setMoveBudget,
+    setAlternatives,
+    setAnalyzer
   };
 }
\ No newline at end of file
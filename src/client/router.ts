@@ -1,7 +1,14 @@
 import App from '@/client/App';
+import PuzzlePage, { PuzzleLoadError } from '@/client/components/PuzzlePage';
 import SolverPage from '@/client/components/SolverPage';
+import { fetchPuzzle } from '@/client/utils/api';
 import { createRootRoute, createRoute, createRouter } from '@tanstack/react-router';
 
+// Search params of the solver page; `p` is a puzzle in compact notation
+export interface SolverSearch {
+  p?: string;
+}
+
 // Define the root route
 const rootRoute = createRootRoute({
   component: App,
@@ -11,12 +18,24 @@ const rootRoute = createRootRoute({
 const homeRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/',
+  validateSearch: (search: Record<string, unknown>): SolverSearch => ({
+    p: typeof search.p === 'string' ? search.p : undefined,
+  }),
   component: SolverPage,
 });
 
+const puzzleRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/puzzle/$id',
+  loader: ({ params }) => fetchPuzzle(params.id),
+  component: PuzzlePage,
+  errorComponent: PuzzleLoadError,
+});
+
 // Define router
 const routeTree = rootRoute.addChildren([
   homeRoute,
+  puzzleRoute,
 ]);
 
 // Create and export the router
@@ -27,4 +46,4 @@ declare module '@tanstack/react-router' {
   interface Register {
     router: typeof router;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import type { CloudData } from '@/types';
+
+// Base URL of the Worker API
+export const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+/**
+ * Ask the API whether it can store puzzles
+ * @returns False when storage isn't configured or the API can't be reached
+ */
+export async function fetchStorageAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_URL}/health`);
+    const body = await response.json() as { storage?: boolean };
+    return body.storage === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch a stored puzzle and its solution
+ * @param id Puzzle ID
+ * @returns The stored record
+ * @throws Error when the puzzle doesn't exist or can't be loaded
+ */
+export async function fetchPuzzle(id: string): Promise<CloudData> {
+  const response = await fetch(`${API_URL}/puzzles/${encodeURIComponent(id)}`);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(body.error || 'Failed to load puzzle');
+  }
+
+  return await response.json() as CloudData;
+}
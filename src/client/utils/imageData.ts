@@ -0,0 +1,22 @@
+import type { RgbaImage } from '@/utils/png';
+
+/**
+ * Decode an image in the browser into RGBA pixels
+ * @param imageBase64 Base64 encoded image
+ * @param fileType Image format, e.g. png or jpeg
+ * @returns Decoded image
+ */
+export async function loadImageData(imageBase64: string, fileType: string): Promise<RgbaImage> {
+  const bytes = Uint8Array.from(atob(imageBase64), char => char.charCodeAt(0));
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: `image/${fileType === 'jpg' ? 'jpeg' : fileType}` }));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { width, height, data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  return { width, height, data };
+}
@@ -0,0 +1,39 @@
+import { InvalidPuzzleError, solvePuzzle } from '@/api/solver';
+import type { GameState, SolverOptions, SolverProgress, SolverResult } from '@/types';
+
+export interface SolverWorkerRequest {
+  gameState: GameState;
+  options: SolverOptions;
+}
+
+export type SolverWorkerResponse =
+  | { type: 'progress', progress: SolverProgress }
+  | { type: 'result', result: SolverResult };
+
+/**
+ * Runs the solver off the main thread so the UI stays responsive
+ * and puzzles can be solved without the API.
+ * Cancel a solve by terminating the worker.
+ */
+self.onmessage = (event: MessageEvent<SolverWorkerRequest>) => {
+  const { gameState, options } = event.data;
+  const post = (message: SolverWorkerResponse) => self.postMessage(message);
+
+  try {
+    const result = solvePuzzle(gameState, options, progress => {
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({
+      type: 'result',
+      result: error instanceof InvalidPuzzleError
+        ? error.toResult()
+        : {
+          success: false,
+          moves: [],
+          message: error instanceof Error ? error.message : 'Unknown error solving puzzle'
+        }
+    });
+  }
+};
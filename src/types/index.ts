@@ -1,12 +1,15 @@
 // Type definitions shared between client and server
 
-import type { Anthropic } from '@anthropic-ai/sdk';
-
+// Color name, or "?" for a hidden layer whose color isn't known yet
 export type Color = string;
 export type Vial = Color[];
 
 export interface GameState {
   vials: Vial[];
+  // Layers every vial can hold (defaults to 4)
+  capacity?: number;
+  // Optional per-vial capacities, overriding `capacity` index by index
+  vialCapacities?: number[];
 }
 
 export interface Move {
@@ -21,10 +24,199 @@ export interface MoveWithColor {
   units: number;
 }
 
+// Search strategy: plain breadth-first search or A* with an admissible heuristic
+export type SolverAlgorithm = 'bfs' | 'astar';
+
+export interface SolverOptions {
+  strictMode?: boolean;
+  algorithm?: SolverAlgorithm;
+  // Most moves available; when the full solution is longer, return the best progress instead
+  moveBudget?: number;
+  // How many other shortest (or one move longer) solutions to look for
+  alternatives?: number;
+  // Most states to explore before giving up; defaults to the solver's limit
+  maxStates?: number;
+}
+
+// Why a search stopped: found a solution, uncovered a hidden layer, ran out of
+// budgeted moves, proved there is no solution, or hit the state limit
+export type SearchEndReason =
+  | 'solved'
+  | 'already-solved'
+  | 'revealed'
+  | 'move-budget'
+  | 'exhausted'
+  | 'state-limit';
+
+export interface SolverStats {
+  statesExplored: number;
+  visitedStates: number;
+  peakQueueSize: number;
+  // Unsolved states explored that led nowhere new
+  deadEnds: number;
+  elapsedMs: number;
+  endReason: SearchEndReason;
+}
+
+// Periodic report from a running search
+export interface SolverProgress {
+  statesExplored: number;
+  depth: number; // Moves made to reach the state being explored
+  bestEstimate: number; // Fewest estimated moves left of any state explored so far
+}
+
+// How far the moves get when solving with a move budget
+export interface BudgetResult {
+  moveBudget: number;
+  finished: boolean; // The puzzle is solved within the budget
+  completedVials: number; // Vials holding a single color, full or with all of it
+  fragmentation: number; // Color runs still to merge; 0 once solved
+  score: number; // completedVials * 100 - fragmentation, higher is better
+}
+
 export interface SolverResult {
   moves: MoveWithColor[];
   success: boolean;
   message?: string;
+  issues?: ValidationIssue[];
+  stats?: SolverStats;
+  // Other solutions as short as `moves` or one move longer, easiest first
+  alternatives?: MoveWithColor[][];
+  // Set when the moves only lead up to uncovering a hidden layer in this vial
+  reveal?: {
+    vial: number;
+  };
+  budget?: BudgetResult;
+  difficulty?: Difficulty;
+}
+
+export type DifficultyRating = 'easy' | 'medium' | 'hard' | 'expert';
+
+// How hard a puzzle is, judged from its shortest solution and the states
+// near the start, whichever algorithm solved it
+export interface Difficulty {
+  // 0 (trivial) to 100
+  score: number;
+  rating: DifficultyRating;
+  optimalLength: number;
+  // Average distinct moves available from the states near the start
+  branchingFactor: number;
+  // Unsolved states near the start that lead nowhere new
+  deadEnds: number;
+  // States near the start where only one move is available
+  forcedMoves: number;
+}
+
+// Size and seed of a generated puzzle
+export interface GeneratorOptions {
+  vialCount: number;
+  colorCount: number;
+  capacity: number;
+  emptyVials: number;
+  // Same seed, same puzzle; random when omitted
+  seed?: number;
+  // Rules the puzzle must be solvable under
+  strictMode?: boolean;
+}
+
+export interface GeneratedPuzzle {
+  gameState: GameState;
+  seed: number;
+  // Shuffles tried before a solvable one turned up
+  attempts: number;
+  solution: SolverResult;
+  difficulty?: Difficulty;
+}
+
+// One puzzle of a batch; its options override the shared ones
+export interface BatchSolveItem {
+  gameState: GameState;
+  options?: SolverOptions;
+}
+
+export interface BatchSolveResult {
+  // One result per puzzle, in the order given
+  results: SolverResult[];
+  solved: number;
+  failed: number;
+  elapsedMs: number;
+}
+
+// Next move from an arbitrary state
+export interface HintResult {
+  success: boolean;
+  // First move of a shortest solution; absent when already solved or unsolvable
+  move?: MoveWithColor;
+  // Moves left including this one, or moves to the next reveal with hidden layers
+  remainingMoves?: number;
+  message?: string;
+  issues?: ValidationIssue[];
+  stats?: SolverStats;
+  reveal?: {
+    vial: number;
+  };
+}
+
+// Why a move in a replayed solution isn't allowed
+export type IllegalMoveReason =
+  | 'no-such-vial'
+  | 'same-vial'
+  | 'empty-source'
+  | 'hidden-layer'
+  | 'full-destination'
+  | 'color-mismatch'
+  | 'wrong-color'
+  | 'wrong-units';
+
+// Move to replay; a stated color or unit count must match the pour
+export type ReplayMove = Move & Partial<Pick<MoveWithColor, 'color' | 'units'>>;
+
+export interface IllegalMove {
+  // Position in the move list, from 0
+  index: number;
+  move: ReplayMove;
+  reason: IllegalMoveReason;
+  message: string;
+}
+
+// Outcome of replaying a list of moves on a puzzle
+export interface VerifyResult {
+  // Every move was legal
+  valid: boolean;
+  // Moves made before stopping at the first illegal one
+  movesApplied: number;
+  illegalMove?: IllegalMove;
+  // State after the last legal move
+  finalState: GameState;
+  // Whether the final state counts as solved under each rule set
+  solved: {
+    strict: boolean;
+    lenient: boolean;
+  };
+}
+
+export type ValidationIssueCode =
+  | 'no-vials'
+  | 'capacity-mismatch'
+  | 'overfull-vial'
+  | 'unknown-color'
+  | 'unbalanced-color'
+  | 'too-few-vials'
+  | 'too-few-empty-vials'
+  | 'hidden-top-layer';
+
+// A single problem found in a puzzle; errors make it unsolvable, warnings are suspicious
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  vial?: number;
+  color?: Color;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
 }
 
 export interface CloudData {
@@ -32,24 +224,52 @@ export interface CloudData {
   gameState: GameState;
   solution?: SolverResult;
   created: string;
+  // SHA-256 of the screenshot the puzzle was read from, hex encoded
+  imageHash?: string;
+}
+
+// What listing stored puzzles returns for each one
+export interface CloudDataSummary {
+  id: string;
+  created: string;
+  vialCount: number;
+  solved: boolean;
+  moveCount?: number;
+  imageHash?: string;
 }
 
+// How screenshots are read: by Claude or by matching pixels against the palette
+export type ImageAnalyzer = 'claude' | 'local';
+
 // Claude API response
+// How sure an image analyzer is about one layer it read
+export interface LayerConfidence {
+  // From 0 (a guess) to 1 (certain)
+  confidence: number;
+  // A color the layer is easily mistaken for, e.g. cyan for a blue layer
+  ambiguousWith?: Color;
+}
+
 export interface ClaudeAnalysisResult {
   success: boolean;
   gameState?: GameState;
+  // One entry per layer of gameState.vials, when the analyzer reports it
+  confidence?: LayerConfidence[][];
   error?: string;
 }
 
 export interface HONO_BINDINGS {
   ANTHROPIC_API_KEY: string;
-
+  // Stored puzzles; unset where no KV namespace is bound (see wrangler.jsonc)
+  PUZZLES?: KVNamespace;
+  // Vision provider: "claude" (default), "local" or "mock"
+  VISION_PROVIDER?: string;
+  // JSON answers for the mock provider, keyed by image SHA-256 hash
+  VISION_FIXTURES?: string;
+  // Claude model for image analysis
+  CLAUDE_MODEL?: string;
 }
 
-// Add this to support the anthropic client in the Hono context
 export interface AnthropicHonoEnv {
   Bindings: HONO_BINDINGS;
-  Variables: {
-    anthropic: Anthropic;
-  };
 }
\ No newline at end of file
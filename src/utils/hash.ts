@@ -0,0 +1,10 @@
+/**
+ * Hash base64-encoded data with SHA-256
+ * @param base64 Base64 data, without a data: URL prefix
+ * @returns Hex-encoded digest
+ */
+export async function sha256Hex(base64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,268 @@
+import type { ClaudeAnalysisResult, Color, LayerConfidence, Vial } from '@/types';
+import { DEFAULT_VIAL_CAPACITY, UNKNOWN_COLOR } from './index';
+import { PALETTE } from './palette';
+import type { RgbaImage } from './png';
+
+/**
+ * Pixel-based screenshot analysis for sudoku.com's Water Sort layout:
+ * vials stand on a plain background in one or two rows, and every layer is a
+ * flat band of color. No network or model is involved, so it works offline
+ * and gives the same answer for the same image.
+ */
+
+type Rgb = [number, number, number];
+
+// Approximate colors of the layers in sudoku.com screenshots
+const REFERENCE_COLORS: Record<Color, Rgb> = {
+  ...Object.fromEntries(PALETTE.map(color => [color.id, color.reference])),
+  // Covered layers are drawn in dark gray with a question mark
+  [UNKNOWN_COLOR]: [120, 124, 130]
+};
+
+const BACKGROUND_TOLERANCE = 48; // Color distance still counted as background
+const COLOR_TOLERANCE = 80; // Furthest a sample may be from its reference color
+const AMBIGUOUS_RATIO = 0.6; // Nearest over runner-up distance above which a layer is ambiguous
+const GRID_SIZE = 240; // Cells along the longer side when looking for vials
+const MIN_VIAL_HEIGHT = 0.06; // Shortest vial, as a share of the image height
+const MIN_VIAL_ASPECT = 1.8; // Vials are at least this much taller than wide
+
+// Part of the vial outline that holds no liquid
+const NECK_SHARE = 0.12; // Top of the vial
+const BOTTOM_SHARE = 0.06; // Rounded bottom
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Read the vials from a decoded screenshot
+ * @param image Decoded screenshot
+ * @param options capacity: layers a full vial holds
+ * @returns Analysis result with game state and per-layer confidence, or the reason none was found
+ */
+export function analyzePixels(
+  image: RgbaImage,
+  { capacity = DEFAULT_VIAL_CAPACITY }: { capacity?: number } = {}
+): ClaudeAnalysisResult {
+  const background = findBackground(image);
+  const boxes = orderVials(findVials(image, background));
+
+  if (boxes.length === 0) {
+    return {
+      success: false,
+      error: 'No vials found in the image'
+    };
+  }
+
+  const readings = boxes.map(box => readVial(image, box, capacity));
+  return {
+    success: true,
+    gameState: { vials: readings.map(reading => reading.vial), capacity },
+    confidence: readings.map(reading => reading.confidence)
+  };
+}
+
+/**
+ * Squared distance between two colors
+ */
+function distance(a: Rgb, b: Rgb): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function getPixel(image: RgbaImage, x: number, y: number): Rgb {
+  const index = (y * image.width + x) * 4;
+  return [image.data[index], image.data[index + 1], image.data[index + 2]];
+}
+
+/**
+ * The most common color along the image border, quantized to absorb noise
+ */
+function findBackground(image: RgbaImage): Rgb {
+  const counts = new Map<number, { count: number, color: Rgb }>();
+  const { width, height } = image;
+
+  const count = (x: number, y: number) => {
+    const color = getPixel(image, x, y);
+    const key = ((color[0] >> 4) << 8) | ((color[1] >> 4) << 4) | (color[2] >> 4);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { count: 1, color });
+  };
+
+  for (let x = 0; x < width; x++) {
+    count(x, 0);
+    count(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    count(0, y);
+    count(width - 1, y);
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count)[0].color;
+}
+
+/**
+ * Find vial-shaped regions that stand out from the background, working on a
+ * coarse grid to keep it fast on full-size screenshots
+ */
+function findVials(image: RgbaImage, background: Rgb): Box[] {
+  const cell = Math.max(1, Math.floor(Math.max(image.width, image.height) / GRID_SIZE));
+  const columns = Math.floor(image.width / cell);
+  const rows = Math.floor(image.height / cell);
+  const tolerance = BACKGROUND_TOLERANCE ** 2;
+
+  // Mark cells whose center differs from the background
+  const mask = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const color = getPixel(image, column * cell + (cell >> 1), row * cell + (cell >> 1));
+      if (distance(color, background) > tolerance) mask[row * columns + column] = 1;
+    }
+  }
+
+  // Group marked cells into connected regions
+  const boxes: Box[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1) continue;
+
+    const box: Box = { left: columns, top: rows, right: 0, bottom: 0 };
+    mask[start] = 2;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const column = index % columns;
+      const row = (index - column) / columns;
+      box.left = Math.min(box.left, column);
+      box.right = Math.max(box.right, column);
+      box.top = Math.min(box.top, row);
+      box.bottom = Math.max(box.bottom, row);
+
+      const neighbours = [
+        column > 0 ? index - 1 : -1,
+        column < columns - 1 ? index + 1 : -1,
+        row > 0 ? index - columns : -1,
+        row < rows - 1 ? index + columns : -1
+      ];
+      for (const next of neighbours) {
+        if (next !== -1 && mask[next] === 1) {
+          mask[next] = 2;
+          stack.push(next);
+        }
+      }
+    }
+
+    // Keep tall, narrow regions; buttons, text and the status bar drop out
+    const boxWidth = box.right - box.left + 1;
+    const boxHeight = box.bottom - box.top + 1;
+    if (boxHeight >= rows * MIN_VIAL_HEIGHT && boxHeight >= boxWidth * MIN_VIAL_ASPECT && boxWidth >= 3) {
+      boxes.push({
+        left: box.left * cell,
+        top: box.top * cell,
+        right: (box.right + 1) * cell - 1,
+        bottom: (box.bottom + 1) * cell - 1
+      });
+    }
+  }
+
+  return boxes;
+}
+
+/**
+ * Sort vials into reading order: rows top to bottom, then left to right
+ */
+function orderVials(boxes: Box[]): Box[] {
+  if (boxes.length === 0) return boxes;
+
+  const heights = boxes.map(box => box.bottom - box.top).sort((a, b) => a - b);
+  const rowGap = heights[heights.length >> 1] / 2;
+  const byTop = [...boxes].sort((a, b) => a.top - b.top);
+
+  const rows: Box[][] = [];
+  for (const box of byTop) {
+    const row = rows[rows.length - 1];
+    if (row && box.top - row[0].top < rowGap) row.push(box);
+    else rows.push([box]);
+  }
+
+  return rows.flatMap(row => row.sort((a, b) => a.left - b.left));
+}
+
+/**
+ * Sample each layer slot of a vial, bottom to top, stopping at the first
+ * one that matches no color
+ */
+function readVial(
+  image: RgbaImage,
+  box: Box,
+  capacity: number
+): { vial: Vial, confidence: LayerConfidence[] } {
+  const height = box.bottom - box.top + 1;
+  const width = box.right - box.left + 1;
+  const liquidTop = box.top + height * NECK_SHARE;
+  const liquidBottom = box.bottom - height * BOTTOM_SHARE;
+  const slotHeight = (liquidBottom - liquidTop) / capacity;
+
+  const vial: Vial = [];
+  const confidence: LayerConfidence[] = [];
+  for (let slot = 0; slot < capacity; slot++) {
+    const centerY = liquidBottom - slotHeight * (slot + 0.5);
+    const match = classify(averageColor(image, {
+      left: Math.round(box.left + width * 0.35),
+      right: Math.round(box.right - width * 0.35),
+      top: Math.round(centerY - slotHeight * 0.2),
+      bottom: Math.round(centerY + slotHeight * 0.2)
+    }));
+
+    if (!match) break;
+    vial.push(match.color);
+    confidence.push(match.confidence);
+  }
+
+  return { vial, confidence };
+}
+
+/**
+ * Average color of the pixels in a box
+ */
+function averageColor(image: RgbaImage, box: Box): Rgb {
+  const sum: Rgb = [0, 0, 0];
+  let count = 0;
+
+  for (let y = Math.max(box.top, 0); y <= Math.min(box.bottom, image.height - 1); y++) {
+    for (let x = Math.max(box.left, 0); x <= Math.min(box.right, image.width - 1); x++) {
+      const color = getPixel(image, x, y);
+      sum[0] += color[0];
+      sum[1] += color[1];
+      sum[2] += color[2];
+      count++;
+    }
+  }
+
+  return count > 0 ? [sum[0] / count, sum[1] / count, sum[2] / count] : sum;
+}
+
+/**
+ * Nearest reference color, or null when none is close enough. Confidence
+ * drops as the sample moves away from its reference or toward the runner-up
+ */
+function classify(sample: Rgb): { color: Color, confidence: LayerConfidence } | null {
+  const [best, runnerUp] = Object.entries(REFERENCE_COLORS)
+    .map(([color, reference]) => ({ color, distance: Math.sqrt(distance(sample, reference)) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  if (best.distance > COLOR_TOLERANCE) return null;
+
+  const ratio = best.distance / runnerUp.distance;
+  const confidence: LayerConfidence = {
+    confidence: Math.round(Math.min(1 - best.distance / COLOR_TOLERANCE, 1 - ratio) * 100) / 100
+  };
+  if (ratio > AMBIGUOUS_RATIO) {
+    confidence.ambiguousWith = runnerUp.color;
+  }
+
+  return { color: best.color, confidence };
+}
@@ -1,25 +1,38 @@
+import type { Color, GameState } from '@/types';
+import { findPaletteColor, PALETTE } from './palette';
+
 /**
- * Utility functions for handling colors
+ * Utility functions for handling colors and vials
  */
 
-// Color mapping
-const COLOR_MAP: Record<string, string> = {
-  'red': '#FF0000',
-  'green': '#2ecc71',
-  'blue': '#3498db',
-  'yellow': '#f1c40f',
-  'orange': '#e67e22',
-  'purple': '#9b59b6',
-  'cyan': '#00FFFF'
-};
+// Layers a vial holds when the puzzle doesn't say otherwise
+export const DEFAULT_VIAL_CAPACITY = 4;
+
+// Placeholder for a layer hidden under a cover until the layers above are poured off
+export const UNKNOWN_COLOR = '?';
+const UNKNOWN_COLOR_HEX = '#6b7280';
+
+// Analyzed layers less certain than this are worth checking by hand
+export const LOW_CONFIDENCE = 0.7;
 
 /**
  * Get hex color code from color name
- * @param colorName Name of the color
+ * @param colorName Name or alias of the color
  * @returns Hex color code
  */
 export function getColorHex(colorName: string): string {
-  return COLOR_MAP[colorName.toLowerCase()] || '#000000';
+  if (colorName === UNKNOWN_COLOR) return UNKNOWN_COLOR_HEX;
+  return findPaletteColor(colorName)?.hex || '#000000';
+}
+
+/**
+ * Get the shape that tells a color apart without relying on hue
+ * @param colorName Name or alias of the color
+ * @returns The palette glyph, or the name's first letter for unknown colors
+ */
+export function getColorGlyph(colorName: string): string {
+  if (colorName === UNKNOWN_COLOR) return UNKNOWN_COLOR;
+  return findPaletteColor(colorName)?.glyph || colorName.charAt(0).toUpperCase();
 }
 
 /**
@@ -46,10 +59,21 @@ export function getContrastColor(bgColor: string): string {
 /**
  * Check if a color name is valid
  * @param colorName Name of the color
- * @returns True if the color is recognized
+ * @returns True if the color is a palette id or the hidden-layer marker
  */
 export function isValidColor(colorName: string): boolean {
-  return !!COLOR_MAP[colorName.toLowerCase()];
+  if (colorName === UNKNOWN_COLOR) return true;
+  return findPaletteColor(colorName)?.id === colorName.toLowerCase();
+}
+
+/**
+ * Map a color name or alias to its palette id
+ * @param colorName Name as written by a person or Claude, e.g. "Teal"
+ * @returns The palette id (e.g. "cyan"), the hidden-layer marker, or null when unknown
+ */
+export function resolveColor(colorName: string): Color | null {
+  if (colorName.trim() === UNKNOWN_COLOR) return UNKNOWN_COLOR;
+  return findPaletteColor(colorName)?.id ?? null;
 }
 
 /**
@@ -57,5 +81,15 @@ export function isValidColor(colorName: string): boolean {
  * @returns Array of color names
  */
 export function getAvailableColors(): string[] {
-  return Object.keys(COLOR_MAP);
-}
\ No newline at end of file
+  return PALETTE.map(color => color.id);
+}
+
+/**
+ * Resolve the capacity of every vial in a game state
+ * @param gameState Game state, optionally carrying capacity settings
+ * @returns Array with one capacity per vial
+ */
+export function getVialCapacities(gameState: GameState): number[] {
+  const capacity = gameState.capacity ?? DEFAULT_VIAL_CAPACITY;
+  return gameState.vials.map((_, index) => gameState.vialCapacities?.[index] ?? capacity);
+}
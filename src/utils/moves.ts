@@ -0,0 +1,51 @@
+import type { MoveWithColor, Vial } from '@/types';
+
+/**
+ * Check whether a pour is allowed: the source has layers, the destination
+ * has room, and it is empty or topped with the same color
+ * @param vials Current vials, bottom to top
+ * @param capacities Capacity of each vial
+ * @param from Source vial index
+ * @param to Destination vial index
+ * @returns Whether the pour is allowed
+ */
+export function canPour(vials: Vial[], capacities: number[], from: number, to: number): boolean {
+  if (from === to) return false;
+
+  const source = vials[from];
+  const dest = vials[to];
+  if (!source || !dest || source.length === 0) return false;
+  if (dest.length >= capacities[to]) return false;
+
+  return dest.length === 0 || dest[dest.length - 1] === source[source.length - 1];
+}
+
+/**
+ * Pour the top run of one color from a vial into another, as much as fits
+ * @param vials Current vials, bottom to top; left unchanged
+ * @param capacities Capacity of each vial
+ * @param from Source vial index
+ * @param to Destination vial index
+ * @returns The vials after pouring and the move made, or null when the pour isn't allowed
+ */
+export function pour(
+  vials: Vial[],
+  capacities: number[],
+  from: number,
+  to: number
+): { vials: Vial[], move: MoveWithColor } | null {
+  if (!canPour(vials, capacities, from, to)) return null;
+
+  const nextVials = vials.map(vial => [...vial]);
+  const source = nextVials[from];
+  const dest = nextVials[to];
+  const color = source[source.length - 1];
+
+  let units = 0;
+  while (source[source.length - 1] === color && dest.length < capacities[to]) {
+    dest.push(source.pop()!);
+    units++;
+  }
+
+  return { vials: nextVials, move: { from, to, color, units } };
+}
@@ -0,0 +1,101 @@
+import type { Color, GameState } from '@/types';
+import { DEFAULT_VIAL_CAPACITY, UNKNOWN_COLOR } from './index';
+import { PALETTE } from './palette';
+
+/**
+ * Compact text form of a puzzle, short enough for a URL or a command line:
+ *
+ *   4/rgby,bgyr,,
+ *
+ * An optional capacity and slash come first, then one comma-separated entry
+ * per vial with a letter per layer, bottom to top. Empty entries are empty
+ * vials, and `:N` after a vial overrides its capacity.
+ */
+
+// One letter per color; "?" marks a hidden layer
+const COLOR_CODES: Record<Color, string> = {
+  ...Object.fromEntries(PALETTE.map(color => [color.id, color.code])),
+  [UNKNOWN_COLOR]: UNKNOWN_COLOR
+};
+
+const CODE_COLORS: Record<string, Color> = Object.fromEntries(
+  Object.entries(COLOR_CODES).map(([color, code]) => [code, color])
+);
+
+/**
+ * Encode a game state in compact notation
+ * @param gameState Game state to encode
+ * @returns Compact notation, or null when a color has no letter code
+ */
+export function encodePuzzle(gameState: GameState): string | null {
+  const capacity = gameState.capacity ?? DEFAULT_VIAL_CAPACITY;
+  const vials: string[] = [];
+
+  for (const [index, vial] of gameState.vials.entries()) {
+    let entry = '';
+    for (const color of vial) {
+      const code = COLOR_CODES[color.toLowerCase()];
+      if (!code) return null;
+      entry += code;
+    }
+
+    const vialCapacity = gameState.vialCapacities?.[index];
+    if (vialCapacity !== undefined && vialCapacity !== capacity) {
+      entry += `:${vialCapacity}`;
+    }
+    vials.push(entry);
+  }
+
+  const prefix = capacity !== DEFAULT_VIAL_CAPACITY ? `${capacity}/` : '';
+  return prefix + vials.join(',');
+}
+
+/**
+ * Decode compact notation into a game state
+ * @param notation Compact notation, e.g. "4/rgby,bgyr,,"
+ * @returns The game state
+ * @throws Error when the notation is malformed
+ */
+export function decodePuzzle(notation: string): GameState {
+  const trimmed = notation.trim();
+  const slash = trimmed.indexOf('/');
+  const gameState: GameState = { vials: [] };
+
+  if (slash !== -1) {
+    gameState.capacity = parseCapacity(trimmed.slice(0, slash));
+  }
+
+  const entries = trimmed.slice(slash + 1).split(',');
+  const vialCapacities: (number | undefined)[] = [];
+
+  for (const entry of entries) {
+    const [codes, capacity] = entry.split(':');
+    gameState.vials.push(Array.from(codes, code => {
+      const color = CODE_COLORS[code.toLowerCase()];
+      if (!color) {
+        throw new Error(`Unknown color code "${code}" in puzzle notation`);
+      }
+      return color;
+    }));
+    vialCapacities.push(capacity === undefined ? undefined : parseCapacity(capacity));
+  }
+
+  // Only spell out per-vial capacities when some vial overrides the default
+  if (vialCapacities.some(capacity => capacity !== undefined)) {
+    const capacity = gameState.capacity ?? DEFAULT_VIAL_CAPACITY;
+    gameState.vialCapacities = vialCapacities.map(vialCapacity => vialCapacity ?? capacity);
+  }
+
+  return gameState;
+}
+
+/**
+ * Parse a capacity, rejecting anything but a positive integer
+ */
+function parseCapacity(text: string): number {
+  const capacity = Number(text);
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error(`Invalid capacity "${text}" in puzzle notation`);
+  }
+  return capacity;
+}
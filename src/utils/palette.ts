@@ -0,0 +1,48 @@
+import type { Color } from '@/types';
+
+/**
+ * Every liquid color the app knows. The editor swatches, the Claude prompt,
+ * request validation, compact notation and pixel matching all read from this
+ * list, so adding a color here is all it takes to support it everywhere.
+ */
+
+export interface PaletteColor {
+  id: Color;
+  // Shown in the editor and the solution viewer
+  hex: string;
+  // Letter in compact notation
+  code: string;
+  // Shape drawn on layers in colorblind mode, unique per color
+  glyph: string;
+  // Other names for it that are accepted and mapped to the id
+  aliases: string[];
+  // Approximate color in sudoku.com screenshots, for pixel matching
+  reference: [number, number, number];
+}
+
+// Generated puzzles take their colors from the front of the list
+export const PALETTE: PaletteColor[] = [
+  { id: 'red', hex: '#FF0000', code: 'r', glyph: '●', aliases: ['crimson', 'scarlet'], reference: [229, 57, 53] },
+  { id: 'green', hex: '#2ecc71', code: 'g', glyph: '▲', aliases: ['lime', 'light green', 'dark green'], reference: [67, 160, 71] },
+  { id: 'blue', hex: '#3498db', code: 'b', glyph: '■', aliases: ['dark blue', 'navy'], reference: [30, 96, 205] },
+  { id: 'yellow', hex: '#f1c40f', code: 'y', glyph: '★', aliases: ['gold'], reference: [253, 216, 53] },
+  { id: 'orange', hex: '#e67e22', code: 'o', glyph: '◆', aliases: [], reference: [251, 140, 0] },
+  { id: 'purple', hex: '#9b59b6', code: 'p', glyph: '✚', aliases: ['violet'], reference: [142, 36, 170] },
+  { id: 'cyan', hex: '#00FFFF', code: 'c', glyph: '○', aliases: ['teal', 'turquoise', 'aqua', 'light blue'], reference: [38, 198, 218] },
+  { id: 'pink', hex: '#ff6fae', code: 'k', glyph: '♥', aliases: ['magenta', 'rose'], reference: [236, 100, 160] },
+  { id: 'brown', hex: '#8d5b3e', code: 'n', glyph: '▼', aliases: ['tan'], reference: [126, 78, 50] },
+  { id: 'gray', hex: '#a0a4a8', code: 'a', glyph: '✕', aliases: ['grey', 'silver'], reference: [170, 172, 176] }
+];
+
+const BY_NAME = new Map<string, PaletteColor>(
+  PALETTE.flatMap(color => [color.id, ...color.aliases].map(name => [name, color] as const))
+);
+
+/**
+ * Look up a palette color by its id or one of its aliases
+ * @param name Color name, in any case
+ * @returns The palette entry, or undefined for an unknown name
+ */
+export function findPaletteColor(name: string): PaletteColor | undefined {
+  return BY_NAME.get(name.trim().toLowerCase());
+}
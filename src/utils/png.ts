@@ -0,0 +1,189 @@
+/**
+ * Minimal PNG decoder for screenshots, built on DecompressionStream so it
+ * runs in Workers (which have no canvas) as well as in the browser.
+ * Supports 8-bit grayscale, RGB, palette and alpha images without interlacing.
+ */
+
+// Decoded image, 4 bytes (RGBA) per pixel, row by row
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Bytes per pixel for each PNG color type at 8 bits per channel
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4  // RGBA
+};
+
+/**
+ * Check whether bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Decode a PNG file into RGBA pixels
+ * @param bytes PNG file contents
+ * @returns Decoded image
+ * @throws Error when the file isn't a PNG this decoder supports
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  // Walk the chunks: 4-byte length, 4-byte type, data, 4-byte CRC
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      width = header.getUint32(0);
+      height = header.getUint32(4);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+
+      if (bitDepth !== 8 || !(colorType in CHANNELS)) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType})`);
+      }
+      if (interlace !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0 || compressed.length === 0) {
+    throw new Error('PNG is missing image data');
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('Palette PNG is missing its palette');
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = await inflate(compressed);
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+
+  const pixels = unfilter(raw, width, height, channels);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let i = 0, j = 0; i < pixels.length; i += channels, j += 4) {
+    switch (colorType) {
+      case 0:
+        data[j] = data[j + 1] = data[j + 2] = pixels[i];
+        data[j + 3] = 255;
+        break;
+      case 2:
+        data[j] = pixels[i];
+        data[j + 1] = pixels[i + 1];
+        data[j + 2] = pixels[i + 2];
+        data[j + 3] = 255;
+        break;
+      case 3: {
+        const index = pixels[i];
+        data[j] = palette![index * 3];
+        data[j + 1] = palette![index * 3 + 1];
+        data[j + 2] = palette![index * 3 + 2];
+        data[j + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        data[j] = data[j + 1] = data[j + 2] = pixels[i];
+        data[j + 3] = pixels[i + 1];
+        break;
+      case 6:
+        data[j] = pixels[i];
+        data[j + 1] = pixels[i + 1];
+        data[j + 2] = pixels[i + 2];
+        data[j + 3] = pixels[i + 3];
+        break;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Inflate the concatenated IDAT chunks (a zlib stream)
+ */
+async function inflate(chunks: Uint8Array[]): Promise<Uint8Array> {
+  const stream = new Blob(chunks).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Undo the per-row filters, returning the bare pixel bytes
+ */
+function unfilter(raw: Uint8Array, width: number, height: number, channels: number): Uint8Array {
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const input = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[previous + x - channels] : 0;
+      let value = raw[input + x];
+
+      switch (filter) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += (left + up) >> 1; break;
+        case 4: value += paeth(left, up, upLeft); break;
+      }
+
+      pixels[row + x] = value;
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Paeth predictor from the PNG specification
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  if (toUp <= toUpLeft) return up;
+  return upLeft;
+}
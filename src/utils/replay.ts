@@ -0,0 +1,125 @@
+import type {
+  GameState,
+  IllegalMove,
+  IllegalMoveReason,
+  Move,
+  MoveWithColor,
+  ReplayMove,
+  Vial,
+  VerifyResult
+} from '@/types';
+import { getVialCapacities, UNKNOWN_COLOR } from './index';
+import { pour } from './moves';
+
+/**
+ * Replay a list of moves on a puzzle, stopping at the first one that breaks
+ * the rules. Moves that state a color or unit count must match what the pour
+ * actually moves.
+ * @param gameState Puzzle to start from
+ * @param moves Moves to make, in order
+ * @returns Where the replay stopped and whether the final state is solved
+ */
+export function replayMoves(gameState: GameState, moves: ReplayMove[]): VerifyResult {
+  const capacities = getVialCapacities(gameState);
+  let vials = gameState.vials;
+  let illegalMove: IllegalMove | undefined;
+
+  for (const [index, move] of moves.entries()) {
+    const poured = pour(vials, capacities, move.from, move.to);
+    const reason = findIllegalReason(vials, capacities, move) ?? checkStatedMove(move, poured!.move);
+    if (reason) {
+      illegalMove = { index, move, reason, message: describeIllegalMove(index, move, reason, vials, poured?.move) };
+      break;
+    }
+
+    vials = poured!.vials;
+  }
+
+  return {
+    valid: !illegalMove,
+    movesApplied: illegalMove ? illegalMove.index : moves.length,
+    illegalMove,
+    finalState: { ...gameState, vials },
+    solved: {
+      strict: isSolvedState(vials, true),
+      lenient: isSolvedState(vials, false)
+    }
+  };
+}
+
+/**
+ * Check whether vials are sorted: every vial empty or a single color, and in
+ * strict mode every color gathered in one vial. Hidden layers never count as sorted.
+ * @param vials Vials to check
+ * @param strictMode Whether each color must end up in a single vial
+ * @returns Whether the vials are solved
+ */
+export function isSolvedState(vials: Vial[], strictMode: boolean): boolean {
+  const vialsPerColor = new Map<string, number>();
+
+  for (const vial of vials) {
+    if (vial.length === 0) continue;
+    if (vial.some(color => color !== vial[0] || color === UNKNOWN_COLOR)) return false;
+    vialsPerColor.set(vial[0], (vialsPerColor.get(vial[0]) ?? 0) + 1);
+  }
+
+  return !strictMode || [...vialsPerColor.values()].every(count => count === 1);
+}
+
+/**
+ * The first rule a pour breaks, checked in the order a player would notice
+ */
+function findIllegalReason(vials: Vial[], capacities: number[], { from, to }: Move): IllegalMoveReason | null {
+  if (!vials[from] || !vials[to]) return 'no-such-vial';
+  if (from === to) return 'same-vial';
+
+  const source = vials[from];
+  const dest = vials[to];
+  if (source.length === 0) return 'empty-source';
+  if (source[source.length - 1] === UNKNOWN_COLOR) return 'hidden-layer';
+  if (dest.length >= capacities[to]) return 'full-destination';
+  if (dest.length > 0 && dest[dest.length - 1] !== source[source.length - 1]) return 'color-mismatch';
+
+  return null;
+}
+
+/**
+ * Compare the color and units a move states with what its pour moves
+ */
+function checkStatedMove(move: ReplayMove, actual: MoveWithColor): IllegalMoveReason | null {
+  if (move.color !== undefined && move.color !== actual.color) return 'wrong-color';
+  if (move.units !== undefined && move.units !== actual.units) return 'wrong-units';
+  return null;
+}
+
+function describeIllegalMove(
+  index: number,
+  move: ReplayMove,
+  reason: IllegalMoveReason,
+  vials: Vial[],
+  actual?: MoveWithColor
+): string {
+  const { from, to } = move;
+  const prefix = `Move ${index + 1} (vial ${from + 1} to vial ${to + 1})`;
+  const sourceTop = vials[from]?.[vials[from].length - 1];
+  const destTop = vials[to]?.[vials[to].length - 1];
+
+  switch (reason) {
+    case 'no-such-vial':
+      return `${prefix} refers to a vial the puzzle doesn't have (it has ${vials.length})`;
+    case 'same-vial':
+      return `${prefix} pours a vial into itself`;
+    case 'empty-source':
+      return `${prefix} pours from an empty vial`;
+    case 'hidden-layer':
+      return `${prefix} pours a hidden layer, whose color isn't known yet`;
+    case 'full-destination':
+      return `${prefix} pours into a full vial`;
+    case 'color-mismatch':
+      return `${prefix} pours ${sourceTop} onto ${destTop}`;
+    case 'wrong-color':
+      return `${prefix} says ${move.color}, but the top of vial ${from + 1} is ${sourceTop}`;
+    case 'wrong-units':
+      return `${prefix} says ${move.units} units, but ${actual?.units} pour`;
+  }
+}
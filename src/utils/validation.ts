@@ -0,0 +1,181 @@
+import type { Color, GameState, ValidationIssue, ValidationResult, Vial } from '@/types';
+import { getVialCapacities, isValidColor, UNKNOWN_COLOR } from './index';
+
+/**
+ * Check a game state for problems that make it unsolvable or suspicious.
+ * Shared by the solver, the /validate endpoint and the editor.
+ * @param gameState Game state to check
+ * @param options strictMode: whether every color must end up in a single vial
+ * @returns Validation result; `valid` is false when any issue is an error
+ */
+export function validatePuzzle(
+  gameState: GameState,
+  { strictMode = true }: { strictMode?: boolean } = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const { vials } = gameState;
+
+  if (vials.length === 0) {
+    issues.push({
+      code: 'no-vials',
+      severity: 'error',
+      message: 'The puzzle has no vials'
+    });
+    return { valid: false, issues };
+  }
+
+  if (gameState.vialCapacities && gameState.vialCapacities.length !== vials.length) {
+    issues.push({
+      code: 'capacity-mismatch',
+      severity: 'error',
+      message: `Expected ${vials.length} vial capacities, got ${gameState.vialCapacities.length}`
+    });
+    return { valid: false, issues };
+  }
+
+  const capacities = getVialCapacities(gameState);
+  // Colors only have to come in whole vials when every vial is the same size
+  const sizes = [...new Set(capacities)].sort((a, b) => a - b);
+  const sharedCapacity = sizes.length === 1 ? sizes[0] : null;
+  const largestCapacity = sizes[sizes.length - 1];
+
+  // Overfull vials
+  vials.forEach((vial, index) => {
+    if (vial.length > capacities[index]) {
+      issues.push({
+        code: 'overfull-vial',
+        severity: 'error',
+        message: `Vial ${index + 1} holds ${vial.length} layers but its capacity is ${capacities[index]}`,
+        vial: index
+      });
+    }
+  });
+
+  // Unknown color names and per-color counts
+  const colorCounts = new Map<Color, number>();
+  const colorVials = new Map<Color, number>();
+  vials.forEach((vial, index) => {
+    for (const color of vial) {
+      colorCounts.set(color, (colorCounts.get(color) ?? 0) + 1);
+      if (!colorVials.has(color)) colorVials.set(color, index);
+    }
+  });
+
+  // Hidden layers are always covered, and may complete any color
+  const hiddenCount = colorCounts.get(UNKNOWN_COLOR) ?? 0;
+  colorCounts.delete(UNKNOWN_COLOR);
+  vials.forEach((vial, index) => {
+    if (vial[vial.length - 1] === UNKNOWN_COLOR) {
+      issues.push({
+        code: 'hidden-top-layer',
+        severity: 'error',
+        message: `The top layer of vial ${index + 1} is hidden, but top layers are always visible`,
+        vial: index
+      });
+    }
+  });
+
+  let missingUnits = 0;
+  for (const [color, count] of colorCounts) {
+    if (!isValidColor(color)) {
+      issues.push({
+        code: 'unknown-color',
+        severity: 'warning',
+        message: `"${color}" is not a known color name (first seen in vial ${colorVials.get(color)! + 1})`,
+        vial: colorVials.get(color),
+        color
+      });
+    }
+
+    if (sharedCapacity !== null && count % sharedCapacity !== 0 && hiddenCount === 0) {
+      issues.push({
+        code: 'unbalanced-color',
+        severity: 'error',
+        message: `${color} appears ${count} times, which is not a multiple of the vial capacity (${sharedCapacity})`,
+        color
+      });
+    } else if (strictMode && count > largestCapacity) {
+      issues.push({
+        code: 'unbalanced-color',
+        severity: 'error',
+        message: sharedCapacity !== null
+          ? `${color} appears ${count} times; strict mode needs all of it in one vial of ${sharedCapacity}`
+          : `${color} appears ${count} times; strict mode needs all of it in one vial, but the largest holds ${largestCapacity}`,
+        color
+      });
+    }
+
+    missingUnits += getMissingUnits(count, sizes);
+  }
+
+  // Hidden layers must top up the visible colors, with any left over forming whole colors
+  // (of any size when the vials differ)
+  if (hiddenCount > 0 && (
+    missingUnits > hiddenCount ||
+    (sharedCapacity !== null && (hiddenCount - missingUnits) % sharedCapacity !== 0)
+  )) {
+    issues.push({
+      code: 'unbalanced-color',
+      severity: 'error',
+      message: `${hiddenCount} hidden layers can't account for the ${missingUnits} layers missing from the visible colors`,
+      color: UNKNOWN_COLOR
+    });
+  }
+
+  // Enough vials and free space to move anything at all
+  const emptyVials = vials.filter(vial => vial.length === 0).length;
+  const isSorted = vials.every(vial => vial.every(color => color === vial[0]));
+  if (strictMode && vials.length < colorCounts.size) {
+    issues.push({
+      code: 'too-few-vials',
+      severity: 'error',
+      message: `${colorCounts.size} colors need at least ${colorCounts.size} vials, but there are ${vials.length}`
+    });
+  }
+
+  if (!isSorted && emptyVials === 0) {
+    if (!hasAnyMove(gameState.vials, capacities)) {
+      issues.push({
+        code: 'too-few-empty-vials',
+        severity: 'error',
+        message: 'There are no empty vials and no legal first move'
+      });
+    } else {
+      issues.push({
+        code: 'too-few-empty-vials',
+        severity: 'warning',
+        message: 'There are no empty vials; the puzzle may not be solvable'
+      });
+    }
+  }
+
+  return {
+    valid: issues.every(issue => issue.severity !== 'error'),
+    issues
+  };
+}
+
+/**
+ * Layers a color is short of filling vials: up to a multiple of the capacity
+ * when every vial is the same size, otherwise up to the smallest vial it fits
+ * @param count Visible layers of the color
+ * @param sizes Distinct vial capacities, smallest first
+ */
+function getMissingUnits(count: number, sizes: number[]): number {
+  if (sizes.length === 1) return (sizes[0] - count % sizes[0]) % sizes[0];
+  const fits = sizes.find(size => size >= count);
+  return fits === undefined ? 0 : fits - count;
+}
+
+/**
+ * Check whether any pour is possible from the given vials
+ */
+function hasAnyMove(vials: Vial[], capacities: number[]): boolean {
+  return vials.some((source, from) =>
+    source.length > 0 && vials.some((dest, to) =>
+      from !== to &&
+      dest.length < capacities[to] &&
+      (dest.length === 0 || dest[dest.length - 1] === source[source.length - 1])
+    )
+  );
+}
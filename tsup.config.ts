@@ -0,0 +1,15 @@
+import { defineConfig } from 'tsup';
+
+// The `water-sort` command line, bundled into one file for Node
+export default defineConfig({
+  entry: { 'water-sort': 'src/cli/index.ts' },
+  outDir: 'dist/cli',
+  tsconfig: 'tsconfig.cli.json',
+  format: ['esm'],
+  platform: 'node',
+  target: 'node18',
+  // Bundle the app's own modules; leave dependencies to node_modules
+  noExternal: [/^@\//],
+  banner: { js: '#!/usr/bin/env node' },
+  clean: true,
+});
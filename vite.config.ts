@@ -12,6 +12,9 @@ export default defineConfig({
     outDir: '../../dist/client',
     emptyOutDir: true,
   },
+  worker: {
+    format: 'es',  // The solver worker is an ES module
+  },
   resolve: {
     alias: {
       '@': resolve(__dirname, './src'),